@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/jobs/runner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = await getJob(params.id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = await cancelJob(params.id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ id: job.id, status: job.status });
+}
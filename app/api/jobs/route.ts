@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startJob } from "@/lib/jobs/runner";
+import { parseProcessRequest } from "@/lib/pipeline";
+
+export const runtime = "nodejs";
+
+// Accepts the same multipart payload as /api/process-images and returns as
+// soon as the job is queued; poll GET /api/jobs/:id for progress. The job
+// outlives this request, so it needs a long-lived server process: on
+// serverless hosts it stops with the function, whatever maxDuration says.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseProcessRequest(await request.formData());
+
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const job = await startJob(parsed.request);
+
+    return NextResponse.json({ id: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error("Error creating job:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || "Failed to create job" },
+      { status: 500 }
+    );
+  }
+}
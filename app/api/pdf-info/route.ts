@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readPdfInfo } from "@/lib/pdf";
+
+export const runtime = "nodejs";
+
+// Reports a PDF's page count and page size without rendering it, so the file
+// card can show the page count and a cost estimate before processing
+export async function POST(request: NextRequest) {
+  try {
+    const file = (await request.formData()).get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const info = await readPdfInfo(Buffer.from(await file.arrayBuffer()));
+
+    return NextResponse.json(info);
+  } catch (error) {
+    console.error("Error reading PDF:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || "Failed to read PDF" },
+      { status: 500 }
+    );
+  }
+}
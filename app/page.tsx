@@ -3,49 +3,216 @@
 import * as React from "react";
 import { useState } from "react";
 import { FileUpload } from "@/components/file-upload";
+import type { CommentEditing } from "@/components/result-card";
+import { ResultsSection } from "@/components/results-section";
+import type { ReviewItem } from "@/components/review-queue";
+import { SettingsPanel, useSettings } from "@/components/settings-panel";
+import { usePersistedSetting } from "@/components/use-persisted-setting";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, Download, Settings, Sparkles } from "lucide-react";
-import { generateCSV, downloadCSV, type Comment } from "@/lib/csv-export";
-
-interface ProcessedResult {
-  imageName: string;
-  comments: Array<{
-    username?: string;
-    text: string;
-    timestamp?: string;
-    likes?: string;
-  }>;
-  rawResponse: string;
+import { Loader2, Download, FileUp, Settings, Sparkles } from "lucide-react";
+import { downloadFile, type Comment } from "@/lib/csv-export";
+import { EXPORTERS, EXPORT_FORMATS, isExportFormat, type ExportFormat } from "@/lib/exporters";
+import { createThumbnail } from "@/lib/thumbnails";
+import { requiresApiKey } from "@/lib/providers/config";
+import { readNdjson } from "@/lib/ndjson";
+import {
+  EMPTY_FILTERS,
+  compareSourceOrder,
+  hasActiveFilters,
+  matchesFilters,
+  matchesLabelFilters,
+  sortThreads,
+  type CommentFilters,
+  type CommentSort,
+} from "@/lib/results";
+import { cancelJob, pollJob } from "@/lib/jobs/client";
+import type { Job } from "@/lib/jobs/types";
+import { dropKnownComments, mergeOverlappingResults } from "@/lib/merge";
+import { applyEdits, resultKey, type CommentEdit } from "@/lib/edits";
+import { importExport } from "@/lib/importer";
+import { formatTimestampRange } from "@/lib/timestamps";
+import { formatReactionCounts } from "@/lib/counts";
+import { applyPrivacy, buildPrivacyKeyFile, createPrivacySalt } from "@/lib/privacy";
+import type { PdfOptions } from "@/lib/pdf-options";
+import type { DisplayResult, ExtractedComment, ProcessedComment as ProcessedResult, ProgressEvent } from "@/lib/types";
+
+interface ProcessingProgress {
+  totalFiles: number;
+  // Items done out of items known, per file index. PDFs only report their
+  // page count once converted, so files start out as a single item.
+  files: Record<number, { done: number; total: number }>;
+  current: string | null;
+}
+
+function jobProgress(job: Job): ProcessingProgress {
+  const files: ProcessingProgress["files"] = {};
+  job.files.forEach((file, index) => {
+    const itemsDone = job.items.filter(
+      (item) => item.fileIndex === index && (item.status === "succeeded" || item.status === "failed")
+    ).length;
+    files[index] = file.status === "finished"
+      ? { done: 1, total: 1 }
+      : { done: itemsDone, total: file.pageCount ?? 1 };
+  });
+  const running = job.items.filter((item) => item.status === "running");
+  return {
+    totalFiles: job.files.length,
+    files,
+    current: running.length > 0 ? running[running.length - 1].imageName : null,
+  };
+}
+
+// Summary toast shown once a run (streamed or background job) finishes
+function completionToast(received: ProcessedResult[]) {
+  const totalComments = received.reduce(
+    (sum, result) => sum + result.comments.length,
+    0
+  );
+  const failedCount = received.filter((result) => result.status === "failed").length;
+
+  return {
+    title: failedCount > 0 ? "Processing Finished With Errors" : "Processing Complete",
+    description:
+      `Extracted ${totalComments} comments from ${received.length} image(s).` +
+      (failedCount > 0 ? ` ${failedCount} image(s) failed.` : ""),
+    variant: failedCount > 0 && failedCount === received.length ? "destructive" as const : undefined,
+  };
+}
+
+// Ids of every comment in some results
+function commentIds(results: ProcessedResult[]): Set<string> {
+  return new Set(results.flatMap((result) => result.comments.map((comment) => comment.id)));
+}
+
+function progressPercent(progress: ProcessingProgress): number {
+  if (progress.totalFiles === 0) return 0;
+  const completed = Object.values(progress.files).reduce(
+    (sum, file) => sum + Math.min(file.done / Math.max(file.total, 1), 1),
+    0
+  );
+  return Math.round((completed / progress.totalFiles) * 100);
 }
 
 export default function Home() {
   const [files, setFiles] = useState<File[]>([]);
-  const [apiKey, setApiKey] = useState<string>("");
+  const [pdfOptions, setPdfOptions] = useState<Map<File, PdfOptions>>(new Map());
+  const settings = useSettings();
+  const {
+    apiKey,
+    provider,
+    model,
+    baseUrl,
+    platform,
+    captureDate,
+    concurrency,
+    maxImageDimension,
+    reviewThreshold,
+    runInBackground,
+    mergeOverlaps,
+    privacyMode,
+    enrich,
+    topics,
+    translateTo,
+    csvOptions,
+  } = settings;
+  const [exportFormat, setExportFormat] = usePersistedSetting<ExportFormat>("export_format", "csv", {
+    parse: (saved) => (isExportFormat(saved) ? saved : undefined),
+  });
   const [isProcessing, setIsProcessing] = useState(false);
   const [results, setResults] = useState<ProcessedResult[]>([]);
+  // Results loaded from earlier exports; new runs add to them instead of
+  // replacing them
+  const [importedResults, setImportedResults] = useState<ProcessedResult[]>([]);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+  // Corrections made by hand, oldest first; undo drops the last one
+  const [edits, setEdits] = useState<CommentEdit[]>([]);
+  // The open comment form, if any
+  const [editing, setEditing] = useState<CommentEditing | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  // One-off: skip the server's result cache for the next run
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<CommentSort>("source");
+  // Results toolbar: search and filters
+  const [filters, setFilters] = useState<CommentFilters>(EMPTY_FILTERS);
+  // Files of the last run, for the review panel; fileIndex points into this
+  const [processedFiles, setProcessedFiles] = useState<File[]>([]);
+  // resultKey of the result open in the review panel
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [approvedIds, setApprovedIds] = useState<Set<string>>(new Set());
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  // Renewed for every run, so pseudonyms only line up within one run
+  const [privacySalt, setPrivacySalt] = useState<string>("");
+  // Selected label chips, as "sentiment:positive", "intent:question", "topic:pricing"
+  const [labelFilters, setLabelFilters] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
-  // Load API key from localStorage on mount
   React.useEffect(() => {
-    const savedApiKey = localStorage.getItem("gemini_api_key");
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-    }
+    setPrivacySalt(createPrivacySalt());
+    // Pick up a job started before the page was closed or reloaded
+    setActiveJobId(localStorage.getItem("active_job_id"));
   }, []);
 
-  // Save API key to localStorage when it changes
-  const handleApiKeyChange = (value: string) => {
-    setApiKey(value);
-    localStorage.setItem("gemini_api_key", value);
-  };
+  // Follow the active background job until it finishes
+  React.useEffect(() => {
+    if (!activeJobId) return;
+
+    const controller = new AbortController();
+    setIsProcessing(true);
+
+    pollJob(
+      activeJobId,
+      (job) => {
+        setResults(job.results);
+        setProgress(jobProgress(job));
+      },
+      controller.signal
+    )
+      .then((job) => {
+        if (controller.signal.aborted) return;
+        if (!job) {
+          toast({
+            title: "Job Not Found",
+            description: "The server no longer knows about the last background job.",
+            variant: "destructive",
+          });
+        } else if (job.status === "completed") {
+          toast(completionToast(job.results));
+        } else {
+          toast({
+            title: `Job ${job.status.charAt(0).toUpperCase()}${job.status.slice(1)}`,
+            description:
+              job.error ||
+              `Kept ${job.results.length} image result(s) processed before the job stopped.`,
+            variant: job.status === "cancelled" ? undefined : "destructive",
+          });
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        toast({
+          title: "Processing Failed",
+          description: error.message || "Lost track of the background job.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        localStorage.removeItem("active_job_id");
+        setActiveJobId(null);
+        setIsProcessing(false);
+        setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [activeJobId, toast]);
 
   const handleProcess = async () => {
-    if (!apiKey) {
+    if (!apiKey && requiresApiKey({ provider, baseUrl })) {
       toast({
         title: "API Key Required",
         description: "Please enter your API key in settings.",
@@ -66,14 +233,77 @@ export default function Home() {
 
     setIsProcessing(true);
     setResults([]);
+    // Edits to the previous run's results don't carry over; those to imported
+    // results do
+    const importedKeys = new Set(importedResults.map(resultKey));
+    setEdits((prev) => prev.filter((edit) => importedKeys.has(edit.resultKey)));
+    setEditing(null);
+    setProcessedFiles(files);
+    setReviewing(null);
+    setApprovedIds(commentIds(importedResults));
+    setShowReviewQueue(false);
+    setLabelFilters(new Set());
+    setFilters(EMPTY_FILTERS);
+    setPrivacySalt(createPrivacySalt());
+    // Background jobs are followed by the polling effect, which resets
+    // isProcessing itself once the job is done
+    let handedOffToJob = false;
 
     try {
       const formData = new FormData();
       formData.append("apiKey", apiKey);
+      formData.append("provider", provider);
+      if (model) {
+        formData.append("model", model);
+      }
+      if (provider === "openai" && baseUrl) {
+        formData.append("baseUrl", baseUrl);
+      }
+      formData.append("concurrency", concurrency);
+      if (maxImageDimension) {
+        formData.append("maxImageDimension", maxImageDimension);
+      }
+      if (forceRefresh) {
+        formData.append("forceRefresh", "true");
+      }
+      formData.append("platform", platform);
+      if (enrich) {
+        formData.append("enrich", "true");
+        formData.append("topics", topics);
+      }
+      if (translateTo) {
+        formData.append("translateTo", translateTo);
+      }
+      formData.append("timezoneOffset", String(new Date().getTimezoneOffset()));
+      if (captureDate) {
+        // datetime-local values have no zone; Date parses them as local time
+        formData.append("captureDate", new Date(captureDate).toISOString());
+      }
       files.forEach((file) => {
         formData.append("files", file);
+        formData.append("lastModified", String(file.lastModified));
+        const options = pdfOptions.get(file);
+        formData.append("pdfOptions", options ? JSON.stringify(options) : "");
       });
 
+      if (runInBackground) {
+        const response = await fetch("/api/jobs", {
+          method: "POST",
+          body: formData,
+        });
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || "Failed to start job");
+        }
+        const { id } = await response.json();
+        localStorage.setItem("active_job_id", id);
+        setActiveJobId(id);
+        handedOffToJob = true;
+        return;
+      }
+
+      formData.append("stream", "ndjson");
+
       const response = await fetch("/api/process-images", {
         method: "POST",
         body: formData,
@@ -84,31 +314,199 @@ export default function Home() {
         throw new Error(error.error || "Failed to process images");
       }
 
-      const data = await response.json();
-      setResults(data.results);
-
-      const totalComments = data.results.reduce(
-        (sum: number, result: ProcessedResult) => sum + result.comments.length,
-        0
-      );
-
-      toast({
-        title: "Processing Complete",
-        description: `Extracted ${totalComments} comments from ${data.results.length} image(s).`,
+      const received: ProcessedResult[] = [];
+      await readNdjson<ProgressEvent>(response, (event) => {
+        switch (event.type) {
+          case "start":
+            setProgress({ totalFiles: event.totalFiles, files: {}, current: null });
+            break;
+          case "file-pages":
+            setProgress((prev) =>
+              prev && {
+                ...prev,
+                files: { ...prev.files, [event.fileIndex]: { done: 0, total: event.pageCount } },
+              }
+            );
+            break;
+          case "item-started":
+            setProgress((prev) => prev && { ...prev, current: event.imageName });
+            break;
+          case "item-succeeded":
+          case "item-failed":
+            received.push(event.result);
+            setResults((prev) => [...prev, event.result].sort(compareSourceOrder));
+            setProgress((prev) => {
+              if (!prev) return prev;
+              const file = prev.files[event.fileIndex] ?? { done: 0, total: 1 };
+              return {
+                ...prev,
+                files: { ...prev.files, [event.fileIndex]: { ...file, done: file.done + 1 } },
+              };
+            });
+            break;
+          case "file-finished":
+            setProgress((prev) => {
+              if (!prev) return prev;
+              const file = prev.files[event.fileIndex] ?? { done: 1, total: 1 };
+              return {
+                ...prev,
+                files: { ...prev.files, [event.fileIndex]: { ...file, done: file.total } },
+              };
+            });
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
       });
-    } catch (error: any) {
+
+      toast(completionToast(received));
+    } catch (error) {
       toast({
         title: "Processing Failed",
-        description: error.message || "An error occurred while processing images.",
+        description: (error as Error).message || "An error occurred while processing images.",
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      if (!handedOffToJob) {
+        setIsProcessing(false);
+        setProgress(null);
+      }
     }
   };
 
-  const handleExportCSV = () => {
-    if (results.length === 0) {
+  const handleCancelJob = async () => {
+    if (!activeJobId) return;
+    try {
+      await cancelJob(activeJobId);
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Imported results first, then this session's, minus comments the import
+  // already has
+  const sessionResults = React.useMemo(
+    () => [...importedResults, ...dropKnownComments(importedResults, results)],
+    [importedResults, results]
+  );
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    for (const file of selected) {
+      try {
+        const imported = importExport(await file.text(), file.name, csvOptions.columns);
+        // Numbered on from earlier imports so every imported result has its
+        // own resultKey for edits
+        setImportedResults((prev) => [
+          ...prev,
+          ...dropKnownComments(prev, imported).map((result, index) => ({ ...result, fileIndex: prev.length + index })),
+        ]);
+        // Everything in an export already passed review
+        setApprovedIds((prev) => new Set([...Array.from(prev), ...Array.from(commentIds(imported))]));
+        const count = imported.reduce((sum, result) => sum + result.comments.length, 0);
+        toast({
+          title: "Import Complete",
+          description: `Imported ${count} comments from ${imported.length} image(s) in ${file.name}. New extractions are checked against them for duplicates.`,
+        });
+      } catch (error) {
+        toast({
+          title: "Import Failed",
+          description: (error as Error).message || `Could not read ${file.name}.`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const editedResults = React.useMemo(() => applyEdits(sessionResults, edits), [sessionResults, edits]);
+
+  const addEdit = (edit: CommentEdit) => {
+    setEdits((prev) => [...prev, edit]);
+    setEditing(null);
+  };
+
+  const handleClearImports = () => {
+    const importedKeys = new Set(importedResults.map(resultKey));
+    setEdits((prev) => prev.filter((edit) => !importedKeys.has(edit.resultKey)));
+    setEditing(null);
+    setImportedResults([]);
+  };
+
+  // Each result's comments in source order, before merging and sorting, so
+  // "Merge with next" is only offered where it joins the comments shown
+  const sourceComments = React.useMemo(
+    () => new Map(editedResults.map((result) => [resultKey(result), result.comments])),
+    [editedResults]
+  );
+
+  // With merging on, each kept comment is listed under the image it was
+  // first seen in, and duplicates from later captures disappear. Privacy
+  // mode redacts here, so nothing downstream sees the real handles.
+  const { displayResults, privacyKey, originalIds } = React.useMemo(() => {
+    let shown: DisplayResult[] = editedResults;
+    let key = new Map<string, string>();
+    let originalIds = new Map<string, string>();
+    if (mergeOverlaps) {
+      const merged = mergeOverlappingResults(editedResults);
+      shown = editedResults.map((result) => {
+        const ids = new Set(result.comments.map((comment) => comment.id));
+        return { ...result, comments: merged.filter((comment) => ids.has(comment.id)) };
+      });
+    }
+    if (privacyMode) {
+      ({ results: shown, key, originalIds } = applyPrivacy(shown, privacySalt));
+    }
+    if (sortBy !== "source") {
+      shown = shown.map((result) => ({ ...result, comments: sortThreads(result.comments, sortBy) }));
+    }
+    return { displayResults: shown, privacyKey: key, originalIds };
+  }, [editedResults, mergeOverlaps, privacyMode, privacySalt, sortBy]);
+
+  // Approvals are kept under the original ids, which imports also carry, so
+  // they survive privacy mode being switched on or off
+  const needsReview = React.useCallback(
+    (comment: ExtractedComment) =>
+      comment.confidenceScore !== undefined &&
+      comment.confidenceScore < (Number(reviewThreshold) || 0) &&
+      !approvedIds.has(originalIds.get(comment.id) ?? comment.id) &&
+      // A person has already looked at comments they edited
+      !comment.edits,
+    [reviewThreshold, approvedIds, originalIds]
+  );
+
+  const reviewQueue: ReviewItem[] = React.useMemo(
+    () =>
+      displayResults.flatMap((result) =>
+        result.comments
+          .filter(needsReview)
+          .map((comment) => ({ imageName: result.imageName, comment }))
+      ),
+    [displayResults, needsReview]
+  );
+
+  const handleApprove = (commentId: string) => {
+    setApprovedIds((prev) => new Set(prev).add(originalIds.get(commentId) ?? commentId));
+  };
+
+  // Toolbar filters and label chips together decide what is shown and exported
+  const isVisible = (comment: ExtractedComment, key: string): boolean =>
+    matchesFilters(comment, key, filters) && matchesLabelFilters(comment, labelFilters);
+  const filtering = hasActiveFilters(filters) || labelFilters.size > 0;
+
+  // The uploaded image a result came from. PDF pages are rendered on the
+  // server and results of a job resumed after a reload have no local file.
+  const reviewSource = (result: DisplayResult): File | undefined => {
+    const file = result.imported ? undefined : processedFiles[result.fileIndex];
+    return result.pageNumber === undefined && file?.type.startsWith("image/") ? file : undefined;
+  };
+
+  const handleExport = async () => {
+    if (sessionResults.length === 0) {
       toast({
         title: "No Data to Export",
         description: "Please process images first.",
@@ -117,43 +515,114 @@ export default function Home() {
       return;
     }
 
-    // Flatten results into comments array
+    // Flatten results into comments array, holding back unapproved
+    // low-confidence comments
     const allComments: Comment[] = [];
-    results.forEach((result) => {
+    displayResults.forEach((result) => {
       result.comments.forEach((comment) => {
+        if (needsReview(comment) || !isVisible(comment, resultKey(result))) return;
         allComments.push({
           imageName: result.imageName,
+          platform: result.platform,
+          id: comment.id,
+          parentId: comment.parentId,
+          depth: comment.depth,
+          replyCount: comment.replyCount,
           username: comment.username,
           text: comment.text,
           timestamp: comment.timestamp,
+          timestampIso: comment.timestampNormalized?.iso,
+          timestampRange: formatTimestampRange(comment.timestampNormalized),
           likes: comment.likes,
+          likesCount: comment.likesCount?.value,
+          likesPrecision: comment.likesCount?.precision,
+          reactions: formatReactionCounts(comment.reactionCounts),
+          box: comment.box,
+          confidence: comment.confidenceScore,
+          sentiment: comment.labels?.sentiment,
+          intent: comment.labels?.intent,
+          topics: comment.labels?.topics,
+          language: comment.language,
+          translation: comment.translation?.text,
+          translationLanguage: comment.translation?.language,
+          seenIn: comment.seenIn,
+          badges: comment.badges,
+          edits: comment.edits,
         });
       });
     });
 
     if (allComments.length === 0) {
       toast({
-        title: "No Comments Found",
-        description: "No comments were extracted from the images.",
+        title: filtering
+          ? "No Comments Match"
+          : reviewQueue.length > 0
+            ? "All Comments Need Review"
+            : "No Comments Found",
+        description: filtering
+          ? "No comments match the current filters. Clear them to export everything."
+          : reviewQueue.length > 0
+            ? "Every comment is below the review threshold. Approve them under \"Needs review\" first."
+            : "No comments were extracted from the images.",
         variant: "destructive",
       });
       return;
     }
 
-    const csvContent = generateCSV(allComments);
-    const timestamp = new Date().toISOString().split("T")[0];
-    downloadCSV(csvContent, `comments_${timestamp}.csv`);
+    const exporter = EXPORTERS[exportFormat];
+    const thumbnails = new Map<string, string>();
+    if (exporter.usesThumbnails) {
+      await Promise.all(
+        displayResults.map(async (result) => {
+          const file = reviewSource(result);
+          const thumbnail = file && (await createThumbnail(file));
+          if (thumbnail) thumbnails.set(result.imageName, thumbnail);
+        })
+      );
+    }
+
+    const exportedAt = new Date();
+    const timestamp = exportedAt.toISOString().split("T")[0];
+    downloadFile(
+      exporter.build({ comments: allComments, thumbnails, csvOptions, exportedAt }),
+      `comments_${timestamp}.${exporter.extension}`,
+      exporter.mimeType
+    );
+    if (privacyMode) {
+      downloadFile(
+        buildPrivacyKeyFile(privacySalt, privacyKey),
+        `comments_${timestamp}_key.json`,
+        "application/json"
+      );
+    }
 
     toast({
       title: "Export Complete",
-      description: `Exported ${allComments.length} comments to CSV.`,
+      description:
+        `Exported ${allComments.length} comments to ${exporter.label}.` +
+        (filtering ? " Only comments matching the current filters were included." : "") +
+        (reviewQueue.length > 0
+          ? ` ${reviewQueue.length} low-confidence comment(s) held back until approved.`
+          : "") +
+        (privacyMode ? " Keep the key file private: it maps pseudonyms back to usernames." : ""),
     });
   };
 
-  const totalComments = results.reduce(
+  const totalComments = displayResults.reduce(
     (sum, result) => sum + result.comments.length,
     0
   );
+  const visibleResults = displayResults
+    .filter((result) => !filters.resultKey || resultKey(result) === filters.resultKey)
+    .map((result) => ({
+      ...result,
+      comments: result.comments.filter((comment) => isVisible(comment, resultKey(result))),
+    }));
+  const exportCount = visibleResults.reduce(
+    (sum, result) => sum + result.comments.filter((comment) => !needsReview(comment)).length,
+    0
+  );
+  const failedCount = results.filter((result) => result.status === "failed").length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -192,35 +661,14 @@ export default function Home() {
                   onFilesSelected={setFiles}
                   acceptedFiles={files}
                   maxFiles={50}
+                  pdfOptions={pdfOptions}
+                  onPdfOptionsChange={(file, options) =>
+                    setPdfOptions((current) => new Map(current).set(file, options))
+                  }
                 />
               </CardContent>
             </Card>
-
-            {showSettings && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Settings</CardTitle>
-                  <CardDescription>
-                    Enter your API key to process images with Nano Banana Pro
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="api-key">API Key</Label>
-                    <Input
-                      id="api-key"
-                      type="password"
-                      placeholder="Enter your Gemini API key"
-                      value={apiKey}
-                      onChange={(e) => handleApiKeyChange(e.target.value)}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Your API key is stored locally in your browser
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
+            {showSettings && <SettingsPanel settings={settings} />}
 
             <div className="flex gap-4">
               <Button
@@ -241,66 +689,132 @@ export default function Home() {
                   </>
                 )}
               </Button>
-              {results.length > 0 && (
+              {activeJobId && (
                 <Button
-                  onClick={handleExportCSV}
-                  variant="outline"
+                  onClick={handleCancelJob}
+                  variant="destructive"
                   size="lg"
-                  className="flex-1"
                 >
-                  <Download className="mr-2 h-4 w-4" />
-                  Export CSV ({totalComments} comments)
+                  Cancel
                 </Button>
               )}
+              {sessionResults.length > 0 && (
+                <div className="flex flex-1 gap-2">
+                  <Button
+                    onClick={handleExport}
+                    variant="outline"
+                    size="lg"
+                    className="flex-1"
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export {EXPORTERS[exportFormat].label} ({exportCount} comments)
+                  </Button>
+                  <select
+                    aria-label="Export format"
+                    className="flex h-11 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  >
+                    {EXPORT_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {EXPORTERS[format].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
-            {results.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Results</CardTitle>
-                  <CardDescription>
-                    Extracted comments from {results.length} image(s)
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {results.map((result, index) => (
-                      <div key={index} className="border rounded-lg p-4">
-                        <h3 className="font-semibold mb-2">{result.imageName}</h3>
-                        {result.comments.length > 0 ? (
-                          <div className="space-y-2">
-                            {result.comments.map((comment, commentIndex) => (
-                              <div
-                                key={commentIndex}
-                                className="bg-muted p-3 rounded text-sm"
-                              >
-                                {comment.username && (
-                                  <div className="font-medium text-primary mb-1">
-                                    @{comment.username}
-                                  </div>
-                                )}
-                                <div className="mb-1">{comment.text}</div>
-                                <div className="text-xs text-muted-foreground flex gap-4">
-                                  {comment.timestamp && (
-                                    <span>⏱ {comment.timestamp}</span>
-                                  )}
-                                  {comment.likes && (
-                                    <span>❤️ {comment.likes}</span>
-                                  )}
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        ) : (
-                          <p className="text-sm text-muted-foreground">
-                            No comments extracted from this image.
-                          </p>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
+            <div className="flex items-center gap-2">
+              <input
+                id="force-refresh"
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+              />
+              <Label htmlFor="force-refresh" className="font-normal">
+                Force re-extract
+              </Label>
+              <span className="text-xs text-muted-foreground">
+                Ignore cached results for images processed before with the same settings
+              </span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl"
+                multiple
+                className="hidden"
+                onChange={handleImport}
+              />
+              <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Import previous export
+              </Button>
+              {importedResults.length > 0 ? (
+                <>
+                  <span className="text-xs text-muted-foreground">
+                    {importedResults.reduce((sum, result) => sum + result.comments.length, 0)} imported
+                    comments from {importedResults.length} image(s)
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={handleClearImports}>
+                    Clear
+                  </Button>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  Continue a session from a CSV, JSON or NDJSON file exported here. CSV columns
+                  renamed on export are recognized while the same labels are set in CSV options.
+                </span>
+              )}
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span className="truncate">
+                    {progress.current ? `Processing ${progress.current}` : "Starting..."}
+                  </span>
+                  <span>{progressPercent(progress)}%</span>
+                </div>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${progressPercent(progress)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {sessionResults.length > 0 && (
+              <ResultsSection
+                results={displayResults}
+                visibleResults={visibleResults}
+                filters={filters}
+                onFiltersChange={setFilters}
+                sort={sortBy}
+                onSortChange={setSortBy}
+                labelFilters={labelFilters}
+                onLabelFiltersChange={setLabelFilters}
+                isVisible={isVisible}
+                needsReview={needsReview}
+                reviewQueue={reviewQueue}
+                onApprove={handleApprove}
+                showReviewQueue={showReviewQueue}
+                onShowReviewQueueChange={setShowReviewQueue}
+                reviewing={reviewing}
+                onReviewingChange={setReviewing}
+                reviewSource={reviewSource}
+                sourceComments={sourceComments}
+                editable={!privacyMode}
+                editCount={edits.length}
+                onUndoEdit={() => setEdits((prev) => prev.slice(0, -1))}
+                editing={editing}
+                onEditingChange={setEditing}
+                onEdit={addEdit}
+              />
             )}
 
             <Card>
@@ -332,13 +846,14 @@ export default function Home() {
                 <div>
                   <div className="font-semibold mb-1">3. Process & Export</div>
                   <p className="text-muted-foreground">
-                    Click "Process Images" to extract comments using AI, then export to CSV.
+                    Click &quot;Process Images&quot; to extract comments using AI, then pick a format (CSV, XLSX,
+                    JSON, NDJSON, Markdown or HTML) next to the Export button and download them.
                   </p>
                 </div>
               </CardContent>
             </Card>
 
-            {results.length > 0 && (
+            {sessionResults.length > 0 && (
               <Card>
                 <CardHeader>
                   <CardTitle>Statistics</CardTitle>
@@ -346,12 +861,18 @@ export default function Home() {
                 <CardContent className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Images Processed:</span>
-                    <span className="font-semibold">{results.length}</span>
+                    <span className="font-semibold">{sessionResults.length}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Total Comments:</span>
                     <span className="font-semibold">{totalComments}</span>
                   </div>
+                  {failedCount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Failed Images:</span>
+                      <span className="font-semibold text-destructive">{failedCount}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
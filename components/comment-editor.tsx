@@ -0,0 +1,141 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { CommentChanges } from "@/lib/edits";
+import type { ExtractedComment } from "@/lib/types";
+
+interface CommentEditorProps {
+  // Unset when adding a comment by hand
+  comment?: ExtractedComment;
+  onSave: (changes: CommentChanges) => void;
+  // Split the comment's saved text at a character offset
+  onSplit?: (at: number) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = "h-8 px-2 text-xs";
+
+// Form for correcting one comment card. Only fields that differ from the
+// comment are passed to onSave, so the edit log records what really changed.
+export function CommentEditor({ comment, onSave, onSplit, onCancel }: CommentEditorProps) {
+  const [username, setUsername] = React.useState(comment?.username ?? "");
+  const [text, setText] = React.useState(comment?.text ?? "");
+  const [timestamp, setTimestamp] = React.useState(comment?.timestamp ?? "");
+  const [likes, setLikes] = React.useState(comment?.likes ?? "");
+  const [depth, setDepth] = React.useState(String(comment?.depth ?? 0));
+  const [badges, setBadges] = React.useState(comment?.badges?.join(", ") ?? "");
+  const [language, setLanguage] = React.useState(comment?.language ?? "");
+  const textRef = React.useRef<HTMLTextAreaElement>(null);
+
+  const handleSave = () => {
+    const values: CommentChanges = {
+      username: username.trim() || undefined,
+      text: text.trim(),
+      timestamp: timestamp.trim() || undefined,
+      likes: likes.trim() || undefined,
+      depth: Math.max(Math.floor(Number(depth)) || 0, 0),
+      badges: badges
+        .split(",")
+        .map((badge) => badge.trim())
+        .filter(Boolean),
+      language: language.trim().toLowerCase() || undefined,
+    };
+    if (values.badges?.length === 0) values.badges = undefined;
+
+    const changes = Object.fromEntries(
+      Object.entries(values).filter(
+        ([field, value]) => JSON.stringify(value) !== JSON.stringify(comment?.[field as keyof CommentChanges])
+      )
+    ) as CommentChanges;
+    onSave(changes);
+  };
+
+  // Splitting works on the saved text; unsaved changes to it are dropped
+  const textChanged = comment !== undefined && text !== comment.text;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Input
+          aria-label="Username"
+          placeholder="Username"
+          className={fieldClass}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Input
+          aria-label="Timestamp"
+          placeholder="Timestamp, e.g. 2h"
+          className={fieldClass}
+          value={timestamp}
+          onChange={(e) => setTimestamp(e.target.value)}
+        />
+        <Input
+          aria-label="Likes"
+          placeholder="Likes"
+          className={fieldClass}
+          value={likes}
+          onChange={(e) => setLikes(e.target.value)}
+        />
+        <Input
+          aria-label="Reply depth"
+          title="0 for a top-level comment, 1 for a reply, ..."
+          type="number"
+          min={0}
+          className={fieldClass}
+          value={depth}
+          onChange={(e) => setDepth(e.target.value)}
+        />
+      </div>
+      <textarea
+        ref={textRef}
+        aria-label="Comment text"
+        rows={3}
+        className="flex w-full rounded-md border border-input bg-background px-2 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          aria-label="Badges"
+          placeholder="Badges, comma-separated"
+          className={fieldClass}
+          value={badges}
+          onChange={(e) => setBadges(e.target.value)}
+        />
+        <Input
+          aria-label="Language"
+          placeholder="Language code, e.g. en"
+          className={fieldClass}
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleSave} disabled={!text.trim()}>
+          Save
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        {onSplit && (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={textChanged}
+            title={
+              textChanged
+                ? "Save or undo your text changes before splitting"
+                : "Place the cursor in the text where the second comment starts"
+            }
+            onClick={() => onSplit(textRef.current?.selectionStart ?? 0)}
+          >
+            Split at cursor
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import * as React from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CSV_DELIMITERS, EXPORT_COLUMNS, type ColumnChoice, type CsvOptions } from "@/lib/csv-export";
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+interface CsvOptionsEditorProps {
+  options: CsvOptions;
+  onChange: (options: CsvOptions) => void;
+}
+
+// Delimiter, encoding and column layout of CSV exports. Chosen columns are
+// listed first in export order, followed by the ones left out.
+export function CsvOptionsEditor({ options, onChange }: CsvOptionsEditorProps) {
+  const chosen: ColumnChoice[] = options.columns ?? EXPORT_COLUMNS.map(({ key }) => ({ key }));
+  const omitted = EXPORT_COLUMNS.filter((column) => !chosen.some((choice) => choice.key === column.key));
+
+  const setColumns = (columns: ColumnChoice[]) => onChange({ ...options, columns });
+
+  const move = (index: number, offset: number) => {
+    const columns = [...chosen];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    setColumns(columns);
+  };
+
+  const checkbox = (id: string, label: string, key: "bom" | "crlf" | "neutralizeFormulas") => (
+    <div className="flex items-center gap-2">
+      <input
+        id={id}
+        type="checkbox"
+        className="h-4 w-4 accent-primary"
+        checked={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+      />
+      <Label htmlFor={id} className="font-normal">
+        {label}
+      </Label>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="csv-delimiter">Delimiter</Label>
+        <select
+          id="csv-delimiter"
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          value={options.delimiter}
+          onChange={(e) => onChange({ ...options, delimiter: e.target.value })}
+        >
+          {CSV_DELIMITERS.map((delimiter) => (
+            <option key={delimiter} value={delimiter}>
+              {DELIMITER_NAMES[delimiter]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {checkbox("csv-bom", "Add a UTF-8 byte order mark (needed for Excel to read non-Latin text)", "bom")}
+      {checkbox("csv-crlf", "Windows line endings (CRLF)", "crlf")}
+      {checkbox("csv-formulas", "Neutralize formulas in text starting with =, +, - or @", "neutralizeFormulas")}
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label>Columns</Label>
+          {options.columns && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({ ...options, columns: undefined })}>
+              Reset
+            </Button>
+          )}
+        </div>
+        <div className="max-h-72 space-y-1 overflow-y-auto rounded-md border p-2">
+          {chosen.map((choice, index) => {
+            const column = EXPORT_COLUMNS.find((candidate) => candidate.key === choice.key);
+            if (!column) return null;
+            return (
+              <div key={choice.key} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  aria-label={`Include ${column.header}`}
+                  className="h-4 w-4 accent-primary"
+                  checked
+                  onChange={() => setColumns(chosen.filter((_, other) => other !== index))}
+                />
+                <Input
+                  aria-label={`Header for ${column.header}`}
+                  placeholder={column.header}
+                  className="h-7 px-2 text-xs"
+                  value={choice.label ?? ""}
+                  onChange={(e) =>
+                    setColumns(
+                      chosen.map((other, otherIndex) =>
+                        otherIndex === index ? { key: other.key, label: e.target.value || undefined } : other
+                      )
+                    )
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  aria-label={`Move ${column.header} up`}
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  aria-label={`Move ${column.header} down`}
+                  disabled={index === chosen.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+          {omitted.map((column) => (
+            <div key={column.key} className="flex items-center gap-1.5 text-muted-foreground">
+              <input
+                type="checkbox"
+                aria-label={`Include ${column.header}`}
+                className="h-4 w-4 accent-primary"
+                checked={false}
+                onChange={() => setColumns([...chosen, { key: column.key }])}
+              />
+              <span className="px-2 text-xs">{column.header}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Leave a header blank to keep its default name. XLSX exports use the same columns.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -5,18 +5,28 @@ import { useDropzone } from "react-dropzone";
 import { Upload, X, Image as ImageIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { PdfOptionsEditor } from "@/components/pdf-options";
+import type { PdfOptions } from "@/lib/pdf-options";
 import { cn } from "@/lib/utils";
 
+// Formats the server converts but most browsers can't preview
+const NO_PREVIEW_EXTENSIONS = /\.(heic|heif|tiff?)$/i;
+
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
   acceptedFiles?: File[];
   maxFiles?: number;
+  // Per-PDF page selection and render options, edited in the file cards
+  pdfOptions?: Map<File, PdfOptions>;
+  onPdfOptionsChange?: (file: File, options: PdfOptions) => void;
 }
 
 export function FileUpload({
   onFilesSelected,
   acceptedFiles = [],
   maxFiles = 100,
+  pdfOptions,
+  onPdfOptionsChange,
 }: FileUploadProps) {
   const onDrop = React.useCallback(
     (newFiles: File[]) => {
@@ -30,10 +40,10 @@ export function FileUpload({
     [onFilesSelected, maxFiles, acceptedFiles]
   );
 
-  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      "image/*": [".png", ".jpg", ".jpeg", ".gif", ".webp"],
+      "image/*": [".png", ".jpg", ".jpeg", ".gif", ".webp", ".heic", ".heif", ".avif", ".tif", ".tiff"],
       "application/pdf": [".pdf"],
     },
     multiple: true,
@@ -79,7 +89,7 @@ export function FileUpload({
               or click to select files
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              Supports PNG, JPG, JPEG, GIF, WEBP, PDF
+              Supports PNG, JPG, JPEG, GIF, WEBP, HEIC, AVIF, TIFF, PDF
             </p>
           </div>
         </div>
@@ -99,7 +109,16 @@ export function FileUpload({
                       <div className="text-4xl mb-2">📄</div>
                       <p className="text-xs font-medium">PDF</p>
                     </div>
+                  ) : NO_PREVIEW_EXTENSIONS.test(file.name) ? (
+                    <div className="text-center p-4">
+                      <ImageIcon className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+                      <p className="text-xs font-medium">
+                        {file.name.split(".").pop()?.toUpperCase()}
+                      </p>
+                    </div>
                   ) : (
+                    // next/image can't optimize local object URLs
+                    // eslint-disable-next-line @next/next/no-img-element
                     <img
                       src={URL.createObjectURL(file)}
                       alt={file.name}
@@ -122,6 +141,13 @@ export function FileUpload({
                   <p className="text-xs truncate" title={file.name}>
                     {file.name}
                   </p>
+                  {file.type === "application/pdf" && onPdfOptionsChange && (
+                    <PdfOptionsEditor
+                      file={file}
+                      options={pdfOptions?.get(file) ?? {}}
+                      onChange={(options) => onPdfOptionsChange(file, options)}
+                    />
+                  )}
                 </div>
               </Card>
             ))}
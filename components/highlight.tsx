@@ -0,0 +1,19 @@
+import * as React from "react";
+import { splitMatches } from "@/lib/results";
+
+// `text` with every case-insensitive occurrence of `query` marked
+export function Highlight({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitMatches(text, query).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_RENDER_SCALE,
+  RENDER_SCALES,
+  estimatePdfCost,
+  selectPdfPages,
+  type PdfInfo,
+  type PdfOptions,
+} from "@/lib/pdf-options";
+
+interface PdfOptionsEditorProps {
+  file: File;
+  options: PdfOptions;
+  onChange: (options: PdfOptions) => void;
+}
+
+// Page selection, render scale and page cap for one PDF in the upload list,
+// with the page count and a cost estimate read from the server
+export function PdfOptionsEditor({ file, options, onChange }: PdfOptionsEditorProps) {
+  const [info, setInfo] = React.useState<PdfInfo | null>(null);
+  const [infoError, setInfoError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const formData = new FormData();
+    formData.append("file", file);
+
+    fetch("/api/pdf-info", { method: "POST", body: formData, signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || "Failed to read PDF");
+        setInfo(body);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) setInfoError(error.message);
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  const selection = info && selectPdfPages(info.pageCount, options);
+  const scale = options.scale ?? DEFAULT_RENDER_SCALE;
+  const estimate = info && selection?.ok && estimatePdfCost(selection.value.length, info, scale);
+
+  return (
+    <div className="mt-2 space-y-1.5 text-xs">
+      <p className="text-muted-foreground">
+        {info
+          ? `${info.pageCount} page${info.pageCount !== 1 ? "s" : ""}${
+              selection?.ok && selection.value.length !== info.pageCount
+                ? ` · ${selection.value.length} selected`
+                : ""
+            }`
+          : infoError
+            ? <span className="text-destructive">{infoError}</span>
+            : "Reading pages…"}
+      </p>
+      <Input
+        aria-label={`Pages of ${file.name}`}
+        placeholder="All pages, e.g. 1-5, 12"
+        className="h-7 px-2 text-xs"
+        value={options.pages ?? ""}
+        onChange={(e) => onChange({ ...options, pages: e.target.value || undefined })}
+      />
+      <div className="flex gap-1.5">
+        <select
+          aria-label={`Render scale for ${file.name}`}
+          title="Render scale for pages without a text layer"
+          className="flex h-7 w-full rounded-md border border-input bg-background px-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          value={scale}
+          onChange={(e) => onChange({ ...options, scale: Number(e.target.value) })}
+        >
+          {RENDER_SCALES.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          min={1}
+          aria-label={`Maximum pages of ${file.name}`}
+          placeholder="Max"
+          title="Process at most this many pages"
+          className="h-7 px-2 text-xs"
+          value={options.maxPages ?? ""}
+          onChange={(e) => {
+            const maxPages = Math.floor(Number(e.target.value));
+            onChange({ ...options, maxPages: maxPages >= 1 ? maxPages : undefined });
+          }}
+        />
+      </div>
+      {selection && !selection.ok && <p className="text-destructive">{selection.error}</p>}
+      {estimate && (
+        <p
+          className="text-muted-foreground"
+          title="One call per page, assuming every page is rendered; pages read from their text layer cost less"
+        >
+          ≈ {estimate.modelCalls} call{estimate.modelCalls !== 1 ? "s" : ""} ·{" "}
+          {estimate.imageTokens.toLocaleString()} image tokens
+        </p>
+      )}
+    </div>
+  );
+}
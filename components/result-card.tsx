@@ -0,0 +1,327 @@
+"use client";
+
+import * as React from "react";
+import { CommentEditor } from "@/components/comment-editor";
+import { Highlight } from "@/components/highlight";
+import { ReviewPanel } from "@/components/review-panel";
+import { createEditId, resultKey, type CommentEdit } from "@/lib/edits";
+import { LANGUAGE_NAMES } from "@/lib/languages";
+import { PLATFORM_LABELS } from "@/lib/platforms";
+import type { DisplayResult, ExtractedComment } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+// The open comment form: editing `commentId`, or adding a comment after it
+// (at the end of the image without one)
+export interface CommentEditing {
+  resultKey: string;
+  commentId?: string;
+  adding: boolean;
+}
+
+interface ResultCardProps {
+  result: DisplayResult;
+  // Search text to highlight
+  query: string;
+  isVisible: (comment: ExtractedComment, resultKey: string) => boolean;
+  needsReview: (comment: ExtractedComment) => boolean;
+  // The uploaded image, when it can be shown next to the comments
+  reviewFile?: File;
+  reviewing: boolean;
+  onReviewingChange: (reviewing: boolean) => void;
+  // The result's comments in source order, before filters, sorting and
+  // overlap merging
+  sourceComments: ExtractedComment[];
+  // Hand edits are turned off while privacy mode shows pseudonyms
+  editable: boolean;
+  editing: CommentEditing | null;
+  onEditingChange: (editing: CommentEditing | null) => void;
+  onEdit: (edit: CommentEdit) => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// "HEIC → JPEG, 4032×3024 downscaled" style note for a result header tooltip
+function preprocessingNote({ convertedFrom, resizedFrom }: NonNullable<DisplayResult["preprocessing"]>): string {
+  return [
+    convertedFrom && `converted from ${convertedFrom.toUpperCase()}`,
+    resizedFrom && `downscaled from ${resizedFrom.width}×${resizedFrom.height}`,
+    "metadata stripped",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// "Merge with next" joins a comment with the one after it in source order,
+// so it's only offered when that is also the next comment shown, after
+// filters, sorting and overlap merging
+function canMergeWithNext(source: ExtractedComment[], shown: ExtractedComment[], index: number): boolean {
+  const position = source.findIndex((comment) => comment.id === shown[index].id);
+  return position !== -1 && position + 1 < source.length && source[position + 1].id === shown[index + 1]?.id;
+}
+
+// One image's comments in the grouped Results view, with its extraction
+// details and the hand-editing controls
+export function ResultCard({
+  result,
+  query,
+  isVisible,
+  needsReview,
+  reviewFile,
+  reviewing,
+  onReviewingChange,
+  sourceComments,
+  editable,
+  editing,
+  onEditingChange,
+  onEdit,
+}: ResultCardProps) {
+  const key = resultKey(result);
+  const shown = result.comments.filter((comment) => isVisible(comment, key));
+  // The open form, when it belongs to this result
+  const open = editing?.resultKey === key ? editing : null;
+
+  return (
+    <div className={cn("border rounded-lg p-4", result.status === "failed" && "border-destructive")}>
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="font-semibold">{result.imageName}</h3>
+        <span className="text-xs text-muted-foreground flex items-baseline gap-2">
+          {result.platform && <span>{PLATFORM_LABELS[result.platform]}</span>}
+          {!!result.retries && (
+            <span>
+              {result.retries} {result.retries === 1 ? "retry" : "retries"}
+            </span>
+          )}
+          {result.imported && <span title="Loaded from an earlier export">imported</span>}
+          {result.cached && <span title="Served from the result cache without a model call">cached</span>}
+          {result.pageSource && <span>{result.pageSource === "text-layer" ? "text layer" : "rendered"}</span>}
+          {result.preprocessing && (
+            <span title={preprocessingNote(result.preprocessing)}>
+              {formatBytes(result.preprocessing.originalBytes)} → {formatBytes(result.preprocessing.sentBytes)}
+            </span>
+          )}
+          {result.tiles && (
+            <span
+              className={cn(result.tiles.failed > 0 && "text-destructive")}
+              title={result.status === "succeeded" ? result.error : undefined}
+            >
+              {result.tiles.count} tiles
+              {result.tiles.failed > 0 && ` (${result.tiles.failed} failed)`}
+            </span>
+          )}
+          {result.enrichmentError && (
+            <span className="text-destructive" title={result.enrichmentError}>
+              enrichment incomplete
+            </span>
+          )}
+          {result.comments.length > 0 && reviewFile && (
+            <button
+              type="button"
+              className="font-medium text-primary hover:underline"
+              onClick={() => onReviewingChange(!reviewing)}
+            >
+              {reviewing ? "Close review" : "Review"}
+            </button>
+          )}
+        </span>
+      </div>
+      {result.status === "failed" ? (
+        <p className="text-sm text-destructive">{result.error || "Extraction failed."}</p>
+      ) : reviewing && reviewFile ? (
+        <ReviewPanel file={reviewFile} comments={result.comments} />
+      ) : shown.length > 0 ? (
+        <div className="space-y-2">
+          {shown.map((comment, commentIndex) => (
+            <React.Fragment key={comment.id ?? commentIndex}>
+              <div
+                className={cn("bg-muted p-3 rounded text-sm", comment.depth > 0 && "border-l-2 border-primary/40")}
+                // Comments arrive in on-screen order, so indenting
+                // by depth is enough to show the threads
+                style={{ marginLeft: `${Math.min(comment.depth, 4) * 1.5}rem` }}
+              >
+                {open?.commentId === comment.id && !open.adding ? (
+                  <CommentEditor
+                    comment={comment}
+                    onSave={(changes) =>
+                      Object.keys(changes).length > 0
+                        ? onEdit({ type: "update", resultKey: key, commentId: comment.id, changes })
+                        : onEditingChange(null)
+                    }
+                    onSplit={(at) =>
+                      onEdit({ type: "split", resultKey: key, commentId: comment.id, at, newId: createEditId() })
+                    }
+                    onCancel={() => onEditingChange(null)}
+                  />
+                ) : (
+                  <>
+                    {(comment.username || comment.badges) && (
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        {comment.username && (
+                          <span className="font-medium text-primary">
+                            <Highlight text={`@${comment.username}`} query={query} />
+                          </span>
+                        )}
+                        {comment.badges?.map((badge) => (
+                          <span key={badge} className="rounded-full border px-2 text-xs text-muted-foreground">
+                            {badge}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="mb-1">
+                      <Highlight text={comment.text} query={query} />
+                    </div>
+                    {comment.translation && (
+                      <div className="mb-1 italic text-muted-foreground">
+                        <Highlight text={comment.translation.text} query={query} />
+                      </div>
+                    )}
+                    {comment.labels && (
+                      <div className="flex flex-wrap gap-1 mb-1">
+                        {[comment.labels.sentiment, comment.labels.intent, ...comment.labels.topics].map(
+                          (label, labelIndex) => (
+                            <span
+                              key={`${labelIndex}:${label}`}
+                              className="rounded-full bg-background px-2 text-xs text-muted-foreground"
+                            >
+                              {label}
+                            </span>
+                          )
+                        )}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground flex gap-4">
+                      {comment.language && (
+                        <span title={LANGUAGE_NAMES[comment.language]}>🌐 {comment.language}</span>
+                      )}
+                      {comment.timestamp && (
+                        <span
+                          title={
+                            comment.timestampNormalized
+                              ? new Date(comment.timestampNormalized.iso).toLocaleString()
+                              : undefined
+                          }
+                        >
+                          ⏱ {comment.timestamp}
+                        </span>
+                      )}
+                      {comment.likes && (
+                        <span
+                          title={
+                            comment.likesCount?.precision === "abbreviated"
+                              ? `About ${comment.likesCount.value.toLocaleString()}`
+                              : undefined
+                          }
+                        >
+                          ❤️ {comment.likes}
+                        </span>
+                      )}
+                      {comment.reactions && (
+                        <span>
+                          {comment.reactions.map((reaction) => `${reaction.type} ${reaction.count}`).join(" · ")}
+                        </span>
+                      )}
+                      {comment.seenIn && comment.seenIn.length > 1 && (
+                        <span title={comment.seenIn.join(", ")}>🔁 seen in {comment.seenIn.length} images</span>
+                      )}
+                      {needsReview(comment) && (
+                        <span className="text-destructive" title={comment.confidenceReasons?.join(", ")}>
+                          ⚠ confidence {comment.confidenceScore?.toFixed(2)}
+                        </span>
+                      )}
+                      {!!comment.replyCount && (
+                        <span>
+                          💬 {comment.replyCount} {comment.replyCount === 1 ? "reply" : "replies"}
+                        </span>
+                      )}
+                      {comment.edits && (
+                        <span title={`Changed by hand: ${comment.edits.join(", ")}`}>✎ edited</span>
+                      )}
+                    </div>
+                    {editable && (
+                      <div className="mt-1 flex gap-3 text-xs">
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => onEditingChange({ resultKey: key, commentId: comment.id, adding: false })}
+                        >
+                          Edit
+                        </button>
+                        {canMergeWithNext(sourceComments, shown, commentIndex) && (
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => onEdit({ type: "merge", resultKey: key, commentId: comment.id })}
+                          >
+                            Merge with next
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => onEditingChange({ resultKey: key, commentId: comment.id, adding: true })}
+                        >
+                          Add below
+                        </button>
+                        <button
+                          type="button"
+                          className="text-destructive hover:underline"
+                          onClick={() => onEdit({ type: "delete", resultKey: key, commentId: comment.id })}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              {open?.commentId === comment.id && open.adding && (
+                <div className="bg-muted p-3 rounded" style={{ marginLeft: `${Math.min(comment.depth, 4) * 1.5}rem` }}>
+                  <CommentEditor
+                    onSave={(changes) =>
+                      onEdit({
+                        type: "add",
+                        resultKey: key,
+                        afterId: comment.id,
+                        newId: createEditId(),
+                        comment: { depth: comment.depth, ...changes },
+                      })
+                    }
+                    onCancel={() => onEditingChange(null)}
+                  />
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {result.comments.length > 0
+            ? "No comments match the current filters."
+            : "No comments extracted from this image."}
+        </p>
+      )}
+      {result.status === "succeeded" &&
+        editable &&
+        (open?.adding && !open.commentId ? (
+          <div className="mt-2 bg-muted p-3 rounded">
+            <CommentEditor
+              onSave={(changes) => onEdit({ type: "add", resultKey: key, newId: createEditId(), comment: changes })}
+              onCancel={() => onEditingChange(null)}
+            />
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="mt-2 text-xs text-primary hover:underline"
+            onClick={() => onEditingChange({ resultKey: key, adding: true })}
+          >
+            + Add a missing comment
+          </button>
+        ))}
+    </div>
+  );
+}
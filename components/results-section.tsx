@@ -0,0 +1,226 @@
+"use client";
+
+import * as React from "react";
+import { ResultCard, type CommentEditing } from "@/components/result-card";
+import { ResultsTable } from "@/components/results-table";
+import { ResultsToolbar, type ResultsView } from "@/components/results-toolbar";
+import { ReviewQueue, type ReviewItem } from "@/components/review-queue";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { usePersistedSetting } from "@/components/use-persisted-setting";
+import { resultKey, type CommentEdit } from "@/lib/edits";
+import type { CommentLabels } from "@/lib/labels";
+import { sortComments, type CommentFilters, type CommentSort } from "@/lib/results";
+import type { DisplayResult, ExtractedComment } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ResultsSectionProps {
+  // Every result, after merging, privacy and sorting
+  results: DisplayResult[];
+  // The same results with only the comments that pass the filters
+  visibleResults: DisplayResult[];
+  filters: CommentFilters;
+  onFiltersChange: (filters: CommentFilters) => void;
+  sort: CommentSort;
+  onSortChange: (sort: CommentSort) => void;
+  // Selected label chips, as "sentiment:positive", "intent:question", "topic:pricing"
+  labelFilters: Set<string>;
+  onLabelFiltersChange: (labelFilters: Set<string>) => void;
+  isVisible: (comment: ExtractedComment, resultKey: string) => boolean;
+  needsReview: (comment: ExtractedComment) => boolean;
+  reviewQueue: ReviewItem[];
+  onApprove: (commentId: string) => void;
+  showReviewQueue: boolean;
+  onShowReviewQueueChange: (show: boolean) => void;
+  // resultKey of the result shown next to its screenshot
+  reviewing: string | null;
+  onReviewingChange: (resultKey: string | null) => void;
+  reviewSource: (result: DisplayResult) => File | undefined;
+  // Comments per resultKey in source order, for offering "Merge with next"
+  sourceComments: Map<string, ExtractedComment[]>;
+  editable: boolean;
+  editCount: number;
+  onUndoEdit: () => void;
+  editing: CommentEditing | null;
+  onEditingChange: (editing: CommentEditing | null) => void;
+  onEdit: (edit: CommentEdit) => void;
+}
+
+// The Results card: toolbar, label chips, the review queue and either the
+// per-image cards or the flat table
+export function ResultsSection({
+  results,
+  visibleResults,
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  labelFilters,
+  onLabelFiltersChange,
+  isVisible,
+  needsReview,
+  reviewQueue,
+  onApprove,
+  showReviewQueue,
+  onShowReviewQueueChange,
+  reviewing,
+  onReviewingChange,
+  reviewSource,
+  sourceComments,
+  editable,
+  editCount,
+  onUndoEdit,
+  editing,
+  onEditingChange,
+  onEdit,
+}: ResultsSectionProps) {
+  const [view, setView] = usePersistedSetting<ResultsView>("results_view", "grouped", {
+    parse: (saved) => (saved === "table" ? "table" : "grouped"),
+  });
+
+  // Chips for every label that occurs in the results, sentiment first
+  const labelChips = React.useMemo(() => {
+    const chips = new Map<string, string>();
+    const kinds: Array<[string, (labels: CommentLabels) => string[]]> = [
+      ["sentiment", (labels) => [labels.sentiment]],
+      ["intent", (labels) => [labels.intent]],
+      ["topic", (labels) => labels.topics],
+    ];
+    for (const [kind, values] of kinds) {
+      results.forEach((result) =>
+        result.comments.forEach((comment) => {
+          if (!comment.labels) return;
+          values(comment.labels).forEach((value) => chips.set(`${kind}:${value}`, value));
+        })
+      );
+    }
+    return Array.from(chips, ([key, label]) => ({ key, label }));
+  }, [results]);
+
+  const toggleLabelFilter = (key: string) => {
+    const next = new Set(labelFilters);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    onLabelFiltersChange(next);
+  };
+
+  const totalCount = results.reduce((sum, result) => sum + result.comments.length, 0);
+  const visibleCount = visibleResults.reduce((sum, result) => sum + result.comments.length, 0);
+  // The per-image cards, unless the flat table is shown instead
+  const groupedResults =
+    view === "grouped"
+      ? results.filter((result) => !filters.resultKey || resultKey(result) === filters.resultKey)
+      : [];
+  // Repeated image names are numbered so the filter can tell them apart
+  const imageChoices = results.map((result, index) => {
+    const earlier = results.slice(0, index).filter((other) => other.imageName === result.imageName).length;
+    return { key: resultKey(result), label: earlier > 0 ? `${result.imageName} (${earlier + 1})` : result.imageName };
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Results</CardTitle>
+          <CardDescription>Extracted comments from {results.length} image(s)</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {editCount > 0 && (
+            <Button variant="outline" size="sm" title={`${editCount} edit(s) made by hand`} onClick={onUndoEdit}>
+              Undo edit ({editCount})
+            </Button>
+          )}
+          {(reviewQueue.length > 0 || showReviewQueue) && (
+            <Button
+              variant={showReviewQueue ? "default" : "outline"}
+              size="sm"
+              onClick={() => onShowReviewQueueChange(!showReviewQueue)}
+            >
+              Needs review ({reviewQueue.length})
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {showReviewQueue ? (
+          <ReviewQueue items={reviewQueue} onApprove={onApprove} />
+        ) : (
+          <div className="space-y-4">
+            <ResultsToolbar
+              filters={filters}
+              onFiltersChange={onFiltersChange}
+              sort={sort}
+              onSortChange={onSortChange}
+              view={view}
+              onViewChange={setView}
+              images={imageChoices}
+              usernames={Array.from(
+                new Set(
+                  results.flatMap((result) =>
+                    result.comments.flatMap((comment) => (comment.username ? [comment.username] : []))
+                  )
+                )
+              ).sort()}
+              shownCount={visibleCount}
+              totalCount={totalCount}
+            />
+            {labelChips.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {labelChips.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    type="button"
+                    className={cn(
+                      "rounded-full border px-3 py-0.5 text-xs transition-colors",
+                      labelFilters.has(key)
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:border-primary/50"
+                    )}
+                    onClick={() => toggleLabelFilter(key)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {view === "table" && (
+              <ResultsTable
+                rows={sortComments(
+                  visibleResults.flatMap((result) =>
+                    result.comments.map((comment) => ({
+                      ...comment,
+                      imageName: result.imageName,
+                      resultKey: resultKey(result),
+                    }))
+                  ),
+                  sort
+                )}
+                query={filters.query}
+              />
+            )}
+            {groupedResults.map((result) => (
+              <ResultCard
+                key={resultKey(result)}
+                result={result}
+                query={filters.query}
+                isVisible={isVisible}
+                needsReview={needsReview}
+                reviewFile={reviewSource(result)}
+                reviewing={reviewing === resultKey(result)}
+                onReviewingChange={(open) => onReviewingChange(open ? resultKey(result) : null)}
+                sourceComments={sourceComments.get(resultKey(result)) ?? []}
+                editable={editable}
+                editing={editing}
+                onEditingChange={onEditingChange}
+                onEdit={onEdit}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
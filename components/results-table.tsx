@@ -0,0 +1,63 @@
+import { Highlight } from "@/components/highlight";
+import type { ExtractedComment } from "@/lib/types";
+
+export type ResultsTableRow = ExtractedComment & { imageName: string; resultKey: string };
+
+interface ResultsTableProps {
+  rows: ResultsTableRow[];
+  // Search text to highlight
+  query: string;
+}
+
+// Every shown comment in one table, across images
+export function ResultsTable({ rows, query }: ResultsTableProps) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No comments match the current filters.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted text-left text-xs text-muted-foreground">
+          <tr>
+            <th className="px-3 py-2 font-medium">Image</th>
+            <th className="px-3 py-2 font-medium">Username</th>
+            <th className="px-3 py-2 font-medium">Comment</th>
+            <th className="px-3 py-2 font-medium">Time</th>
+            <th className="px-3 py-2 text-right font-medium">Likes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={`${row.resultKey}:${row.id}`} className="border-t align-top">
+              <td className="max-w-32 truncate px-3 py-2 text-xs text-muted-foreground" title={row.imageName}>
+                {row.imageName}
+              </td>
+              <td className="px-3 py-2 font-medium text-primary">
+                {row.username && <Highlight text={`@${row.username}`} query={query} />}
+              </td>
+              <td className="px-3 py-2">
+                {row.depth > 0 && <span className="text-muted-foreground">↳ </span>}
+                <Highlight text={row.text} query={query} />
+                {row.translation && (
+                  <div className="italic text-muted-foreground">
+                    <Highlight text={row.translation.text} query={query} />
+                  </div>
+                )}
+              </td>
+              <td
+                className="whitespace-nowrap px-3 py-2 text-xs text-muted-foreground"
+                title={
+                  row.timestampNormalized ? new Date(row.timestampNormalized.iso).toLocaleString() : undefined
+                }
+              >
+                {row.timestamp}
+              </td>
+              <td className="px-3 py-2 text-right text-xs text-muted-foreground">{row.likes}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import * as React from "react";
+import { LayoutList, Search, Table } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { EMPTY_FILTERS, hasActiveFilters, type CommentFilters, type CommentSort } from "@/lib/results";
+
+export type ResultsView = "grouped" | "table";
+
+interface ResultsToolbarProps {
+  filters: CommentFilters;
+  onFiltersChange: (filters: CommentFilters) => void;
+  sort: CommentSort;
+  onSortChange: (sort: CommentSort) => void;
+  view: ResultsView;
+  onViewChange: (view: ResultsView) => void;
+  // Filter choices, one per result
+  images: Array<{ key: string; label: string }>;
+  usernames: string[];
+  // Comments shown out of all comments
+  shownCount: number;
+  totalCount: number;
+}
+
+const selectClass =
+  "flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// Search, filters, sort order and layout for the Results card
+export function ResultsToolbar({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  view,
+  onViewChange,
+  images,
+  usernames,
+  shownCount,
+  totalCount,
+}: ResultsToolbarProps) {
+  const update = (changes: Partial<CommentFilters>) => onFiltersChange({ ...filters, ...changes });
+  const filtering = hasActiveFilters(filters);
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative min-w-48 flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            aria-label="Search comments"
+            placeholder="Search comments"
+            className="h-9 pl-8"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+          />
+        </div>
+        <select
+          aria-label="Sort comments"
+          className={selectClass}
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as CommentSort)}
+        >
+          <option value="source">Source order</option>
+          <option value="engagement">Most likes</option>
+          <option value="time">Newest first</option>
+        </select>
+        <div className="flex rounded-md border">
+          <Button
+            variant={view === "grouped" ? "secondary" : "ghost"}
+            size="sm"
+            aria-label="Group by image"
+            title="Group by image"
+            onClick={() => onViewChange("grouped")}
+          >
+            <LayoutList className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={view === "table" ? "secondary" : "ghost"}
+            size="sm"
+            aria-label="Flat table"
+            title="Flat table"
+            onClick={() => onViewChange("table")}
+          >
+            <Table className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Input
+          aria-label="Filter by username"
+          placeholder="Username"
+          list="results-usernames"
+          className="h-9 w-40"
+          value={filters.username}
+          onChange={(e) => update({ username: e.target.value })}
+        />
+        <datalist id="results-usernames">
+          {usernames.map((username) => (
+            <option key={username} value={username} />
+          ))}
+        </datalist>
+        <select
+          aria-label="Filter by image"
+          className={`${selectClass} max-w-48`}
+          value={filters.resultKey}
+          onChange={(e) => update({ resultKey: e.target.value })}
+        >
+          <option value="">All images</option>
+          {images.map(({ key, label }) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={filters.hasLikes}
+            onChange={(e) => update({ hasLikes: e.target.checked })}
+          />
+          Has likes
+        </label>
+        <label className="flex items-center gap-1.5 text-muted-foreground">
+          From
+          <Input
+            type="datetime-local"
+            aria-label="Posted from"
+            className="h-9 w-auto"
+            value={filters.from}
+            onChange={(e) => update({ from: e.target.value })}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-muted-foreground">
+          to
+          <Input
+            type="datetime-local"
+            aria-label="Posted until"
+            className="h-9 w-auto"
+            value={filters.to}
+            onChange={(e) => update({ to: e.target.value })}
+          />
+        </label>
+      </div>
+      {filtering && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Showing {shownCount} of {totalCount} comments. Export includes only these.
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => onFiltersChange(EMPTY_FILTERS)}>
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
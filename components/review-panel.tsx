@@ -0,0 +1,96 @@
+"use client";
+
+import * as React from "react";
+import type { ExtractedComment } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ReviewPanelProps {
+  file: File;
+  comments: ExtractedComment[];
+}
+
+// Source image with each comment's bounding box drawn over it, next to the
+// comment list. Selecting on either side highlights the other.
+export function ReviewPanel({ file, comments }: ReviewPanelProps) {
+  const [imageUrl, setImageUrl] = React.useState<string | null>(null);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const listRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Draw larger boxes first so nested or overlapping smaller ones stay clickable
+  const boxed = React.useMemo(
+    () =>
+      comments
+        .filter((comment) => comment.box)
+        .sort((a, b) => b.box!.width * b.box!.height - a.box!.width * a.box!.height),
+    [comments]
+  );
+
+  const selectFromImage = (id: string) => {
+    setSelectedId(id);
+    listRef.current
+      ?.querySelector(`[data-comment-id="${id}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="relative self-start overflow-hidden rounded border bg-muted">
+        {imageUrl && (
+          // next/image can't optimize local object URLs
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={imageUrl} alt={file.name} className="block w-full" />
+        )}
+        {boxed.map((comment) => (
+          <button
+            key={comment.id}
+            type="button"
+            title={comment.username ? `@${comment.username}` : comment.text.substring(0, 80)}
+            aria-label={comment.username ? `Select comment by @${comment.username}` : "Select comment"}
+            className={cn(
+              "absolute rounded-sm border-2 transition-colors",
+              comment.id === selectedId
+                ? "border-primary bg-primary/25"
+                : "border-primary/40 hover:bg-primary/10"
+            )}
+            style={{
+              left: `${comment.box!.x * 100}%`,
+              top: `${comment.box!.y * 100}%`,
+              width: `${comment.box!.width * 100}%`,
+              height: `${comment.box!.height * 100}%`,
+            }}
+            onClick={() => selectFromImage(comment.id)}
+          />
+        ))}
+      </div>
+      <div ref={listRef} className="max-h-[70vh] space-y-2 overflow-y-auto">
+        {comments.map((comment) => (
+          <button
+            key={comment.id}
+            type="button"
+            data-comment-id={comment.id}
+            className={cn(
+              "block w-full rounded p-3 text-left text-sm transition-colors",
+              comment.id === selectedId ? "bg-primary/15 ring-2 ring-primary" : "bg-muted hover:bg-muted/70"
+            )}
+            style={{ marginLeft: `${Math.min(comment.depth, 4) * 1}rem`, width: `calc(100% - ${Math.min(comment.depth, 4)}rem)` }}
+            onClick={() => setSelectedId(comment.id)}
+          >
+            {comment.username && (
+              <span className="mb-1 block font-medium text-primary">@{comment.username}</span>
+            )}
+            <span className="block">{comment.text}</span>
+            {!comment.box && (
+              <span className="mt-1 block text-xs text-muted-foreground">No bounding box</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
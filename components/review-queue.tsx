@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import { Check, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ExtractedComment } from "@/lib/types";
+
+export interface ReviewItem {
+  imageName: string;
+  comment: ExtractedComment;
+}
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  onApprove: (commentId: string) => void;
+}
+
+// Steps through low-confidence comments one at a time. Approved comments
+// drop out of `items`, so the same position then shows the next one.
+export function ReviewQueue({ items, onApprove }: ReviewQueueProps) {
+  const [position, setPosition] = React.useState(0);
+  const index = Math.min(position, items.length - 1);
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing left to review. Every comment is above the threshold or approved.
+      </p>
+    );
+  }
+
+  const { imageName, comment } = items[index];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {index + 1} of {items.length} · {imageName}
+        </span>
+        <span>Confidence {comment.confidenceScore?.toFixed(2)}</span>
+      </div>
+      <div className="bg-muted p-3 rounded text-sm">
+        {comment.username && (
+          <div className="font-medium text-primary mb-1">@{comment.username}</div>
+        )}
+        <div className="mb-1">{comment.text}</div>
+        <div className="text-xs text-muted-foreground flex gap-4">
+          {comment.timestamp && <span>⏱ {comment.timestamp}</span>}
+          {comment.likes && <span>❤️ {comment.likes}</span>}
+        </div>
+      </div>
+      {comment.confidenceReasons && (
+        <ul className="list-disc pl-5 text-xs text-muted-foreground">
+          {comment.confidenceReasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={index === 0}
+          onClick={() => setPosition(index - 1)}
+        >
+          <ChevronLeft className="mr-1 h-4 w-4" />
+          Previous
+        </Button>
+        <Button size="sm" onClick={() => onApprove(comment.id)}>
+          <Check className="mr-1 h-4 w-4" />
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={index === items.length - 1}
+          onClick={() => setPosition(index + 1)}
+        >
+          Next
+          <ChevronRight className="ml-1 h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import * as React from "react";
+import { CsvOptionsEditor } from "@/components/csv-options";
+import { usePersistedSetting } from "@/components/use-persisted-setting";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_CSV_OPTIONS, parseCsvOptions } from "@/lib/csv-export";
+import { DEFAULT_TOPICS } from "@/lib/labels";
+import { LANGUAGE_NAMES, isLanguageCode } from "@/lib/languages";
+import { PLATFORM_IDS, PLATFORM_LABELS, isPlatformId, type PlatformSetting } from "@/lib/platforms";
+import {
+  DEFAULT_MODELS,
+  DEFAULT_OPENAI_BASE_URL,
+  PROVIDER_IDS,
+  PROVIDER_LABELS,
+  isProviderId,
+  type ProviderId,
+} from "@/lib/providers/config";
+
+// Everything on the Settings card, saved in the browser except the capture
+// date, which belongs to one batch of screenshots
+export function useSettings() {
+  const [apiKey, setApiKey] = usePersistedSetting("gemini_api_key", "");
+  const [provider, setProviderValue] = usePersistedSetting<ProviderId>("extraction_provider", "gemini", {
+    parse: (saved) => (isProviderId(saved) ? saved : undefined),
+  });
+  const [model, setModel] = usePersistedSetting("extraction_model", "");
+  const [baseUrl, setBaseUrl] = usePersistedSetting("openai_base_url", "");
+  const [platform, setPlatform] = usePersistedSetting<PlatformSetting>("extraction_platform", "auto", {
+    parse: (saved) => (isPlatformId(saved) ? saved : undefined),
+  });
+  const [captureDate, setCaptureDate] = React.useState("");
+  const [concurrency, setConcurrency] = usePersistedSetting("extraction_concurrency", "3", {
+    parse: (saved) => saved || undefined,
+  });
+  const [maxImageDimension, setMaxImageDimension] = usePersistedSetting("max_image_dimension", "3072", {
+    parse: (saved) => saved || undefined,
+  });
+  // Comments scored below the threshold need approval before they're exported
+  const [reviewThreshold, setReviewThreshold] = usePersistedSetting("review_threshold", "0.5");
+  const [runInBackground, setRunInBackground] = usePersistedSetting("use_background_jobs", false);
+  const [mergeOverlaps, setMergeOverlaps] = usePersistedSetting("merge_overlaps", false);
+  const [privacyMode, setPrivacyMode] = usePersistedSetting("privacy_mode", false);
+  const [enrich, setEnrich] = usePersistedSetting("enrich_comments", false);
+  const [topics, setTopics] = usePersistedSetting("enrichment_topics", DEFAULT_TOPICS.join(", "));
+  // ISO 639-1 code, or "" to skip translation
+  const [translateTo, setTranslateTo] = usePersistedSetting("translate_to", "", {
+    parse: (saved) => (isLanguageCode(saved) ? saved : undefined),
+  });
+  const [csvOptions, setCsvOptions] = usePersistedSetting("csv_options", DEFAULT_CSV_OPTIONS, {
+    parse: (saved) => {
+      try {
+        return parseCsvOptions(JSON.parse(saved));
+      } catch {
+        // Keep the defaults when the saved value is unreadable
+        return undefined;
+      }
+    },
+    serialize: JSON.stringify,
+  });
+
+  const setProvider = (value: ProviderId) => {
+    setProviderValue(value);
+    // Model names are provider-specific, so don't carry one over
+    setModel("");
+  };
+
+  return {
+    apiKey,
+    setApiKey,
+    provider,
+    setProvider,
+    model,
+    setModel,
+    baseUrl,
+    setBaseUrl,
+    platform,
+    setPlatform,
+    captureDate,
+    setCaptureDate,
+    concurrency,
+    setConcurrency,
+    maxImageDimension,
+    setMaxImageDimension,
+    reviewThreshold,
+    setReviewThreshold,
+    runInBackground,
+    setRunInBackground,
+    mergeOverlaps,
+    setMergeOverlaps,
+    privacyMode,
+    setPrivacyMode,
+    enrich,
+    setEnrich,
+    topics,
+    setTopics,
+    translateTo,
+    setTranslateTo,
+    csvOptions,
+    setCsvOptions,
+  };
+}
+
+export type SettingsValues = ReturnType<typeof useSettings>;
+
+const selectClass =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// The Settings card: provider, extraction, review, privacy, enrichment and
+// CSV export options
+export function SettingsPanel({ settings }: { settings: SettingsValues }) {
+  const {
+    apiKey,
+    setApiKey,
+    provider,
+    setProvider,
+    model,
+    setModel,
+    baseUrl,
+    setBaseUrl,
+    platform,
+    setPlatform,
+    captureDate,
+    setCaptureDate,
+    concurrency,
+    setConcurrency,
+    maxImageDimension,
+    setMaxImageDimension,
+    reviewThreshold,
+    setReviewThreshold,
+    runInBackground,
+    setRunInBackground,
+    mergeOverlaps,
+    setMergeOverlaps,
+    privacyMode,
+    setPrivacyMode,
+    enrich,
+    setEnrich,
+    topics,
+    setTopics,
+    translateTo,
+    setTranslateTo,
+    csvOptions,
+    setCsvOptions,
+  } = settings;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Settings</CardTitle>
+        <CardDescription>
+          Choose an extraction provider and enter its API key
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="provider">Provider</Label>
+          <select
+            id="provider"
+            className={selectClass}
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as ProviderId)}
+          >
+            {PROVIDER_IDS.map((id) => (
+              <option key={id} value={id}>
+                {PROVIDER_LABELS[id]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {provider !== "fixture" && (
+          <div className="space-y-2">
+            <Label htmlFor="api-key">API Key</Label>
+            <Input
+              id="api-key"
+              type="password"
+              placeholder={`Enter your ${PROVIDER_LABELS[provider]} API key`}
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Your API key is stored locally in your browser
+            </p>
+          </div>
+        )}
+        {provider === "openai" && (
+          <div className="space-y-2">
+            <Label htmlFor="base-url">Base URL</Label>
+            <Input
+              id="base-url"
+              placeholder={DEFAULT_OPENAI_BASE_URL}
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Point this at a local server (e.g. http://localhost:11434/v1) to skip the API key
+            </p>
+          </div>
+        )}
+        {provider !== "fixture" && (
+          <div className="space-y-2">
+            <Label htmlFor="model">Model</Label>
+            <Input
+              id="model"
+              placeholder={DEFAULT_MODELS[provider]}
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="platform">Platform</Label>
+          <select
+            id="platform"
+            className={selectClass}
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value as PlatformSetting)}
+          >
+            <option value="auto">Auto-detect per image</option>
+            {PLATFORM_IDS.map((id) => (
+              <option key={id} value={id}>
+                {PLATFORM_LABELS[id]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            Auto-detect costs one extra model call per image
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="capture-date">Capture Date</Label>
+          <Input
+            id="capture-date"
+            type="datetime-local"
+            value={captureDate}
+            onChange={(e) => setCaptureDate(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            When the screenshots were taken, for turning &quot;2h&quot; or &quot;3w ago&quot; into dates. Leave empty to use each file&apos;s EXIF or modification date.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="concurrency">Parallel Requests</Label>
+          <Input
+            id="concurrency"
+            type="number"
+            min={1}
+            max={10}
+            value={concurrency}
+            onChange={(e) => setConcurrency(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Lower this if your provider keeps rate-limiting you
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="max-image-dimension">Max Image Dimension (px)</Label>
+          <Input
+            id="max-image-dimension"
+            type="number"
+            min={512}
+            step={256}
+            value={maxImageDimension}
+            onChange={(e) => setMaxImageDimension(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Larger images are downscaled before sending. Tall scroll captures are limited by width, since they are split into tiles.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="review-threshold">Review Threshold</Label>
+          <Input
+            id="review-threshold"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={reviewThreshold}
+            onChange={(e) => setReviewThreshold(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Comments with a confidence below this are held out of the CSV until approved. Set to 0 to export everything.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              id="background-job"
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={runInBackground}
+              onChange={(e) => setRunInBackground(e.target.checked)}
+            />
+            <Label htmlFor="background-job">Run as background job</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Keeps processing on the server if you close or reload this tab
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              id="merge-overlaps"
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={mergeOverlaps}
+              onChange={(e) => setMergeOverlaps(e.target.checked)}
+            />
+            <Label htmlFor="merge-overlaps">Merge overlapping scroll captures</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Drops comments repeated across consecutive screenshots and joins comments cut at an image edge
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              id="privacy-mode"
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={privacyMode}
+              onChange={(e) => setPrivacyMode(e.target.checked)}
+            />
+            <Label htmlFor="privacy-mode">Privacy mode</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Shows and exports pseudonyms instead of usernames and masks emails, phone numbers and URLs. The CSV export also downloads a key file mapping pseudonyms back to usernames.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              id="enrich"
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={enrich}
+              onChange={(e) => setEnrich(e.target.checked)}
+            />
+            <Label htmlFor="enrich">Label sentiment, intent and topics</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Runs an extra pass through the same provider after extraction, many comments per request
+          </p>
+        </div>
+        {enrich && (
+          <div className="space-y-2">
+            <Label htmlFor="topics">Topics</Label>
+            <Input
+              id="topics"
+              placeholder="product, pricing, shipping"
+              value={topics}
+              onChange={(e) => setTopics(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma-separated. Each comment is tagged with the topics from this list it is about.
+            </p>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="translate-to">Translate To</Label>
+          <select
+            id="translate-to"
+            className={selectClass}
+            value={translateTo}
+            onChange={(e) => setTranslateTo(e.target.value)}
+          >
+            <option value="">Don&apos;t translate</option>
+            {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            Adds a translation next to each comment in another language. The original text is kept as extracted.
+          </p>
+        </div>
+        <div className="space-y-2 border-t pt-4">
+          <Label className="text-base">CSV Export</Label>
+          <CsvOptionsEditor options={csvOptions} onChange={setCsvOptions} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
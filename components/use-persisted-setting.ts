@@ -0,0 +1,42 @@
+"use client";
+
+import * as React from "react";
+
+interface PersistOptions<T> {
+  // Turn the saved string back into a value; undefined keeps the default.
+  // Booleans and strings are read as they were saved when unset.
+  parse?: (saved: string) => T | undefined;
+  serialize?: (value: T) => string;
+}
+
+// State mirrored to localStorage under `key`. The saved value is only read
+// after mounting, so the server render and the first client render agree.
+export function usePersistedSetting<T>(
+  key: string,
+  defaultValue: T,
+  { parse, serialize = String }: PersistOptions<T> = {}
+): [T, (value: T) => void] {
+  const [value, setValue] = React.useState<T>(defaultValue);
+
+  // Read once per key; `parse` and object defaults are usually created inline
+  const initial = React.useRef({ parse, defaultValue });
+  React.useEffect(() => {
+    const saved = localStorage.getItem(key);
+    if (saved === null) return;
+    const { parse, defaultValue } = initial.current;
+    const parsed = parse ? parse(saved) : ((typeof defaultValue === "boolean" ? saved === "true" : saved) as T);
+    if (parsed !== undefined) {
+      setValue(parsed);
+    }
+  }, [key]);
+
+  const update = React.useCallback(
+    (next: T) => {
+      setValue(next);
+      localStorage.setItem(key, serialize(next));
+    },
+    [key, serialize]
+  );
+
+  return [value, update];
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseModelJson, validateCommentResponse } from "@/lib/comment-schema";
+
+// The comments of a reply that is expected to validate
+const validComments = (value: unknown) => {
+  const result = validateCommentResponse(value);
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  return result.comments;
+};
+
+// The errors of a reply that is expected to fail
+const errorsOf = (value: unknown) => {
+  const result = validateCommentResponse(value);
+  return result.ok ? [] : result.errors;
+};
+
+describe("parseModelJson", () => {
+  it("reads a bare JSON reply", () => {
+    expect(parseModelJson('{"comments":[]}')).toEqual({ ok: true, value: { comments: [] }, extracted: false });
+  });
+
+  it("cuts JSON out of markdown fences and surrounding prose", () => {
+    const reply = 'Here are the comments:\n```json\n{"comments":[{"text":"hi"}]}\n```\nLet me know!';
+    expect(parseModelJson(reply)).toEqual({ ok: true, value: { comments: [{ text: "hi" }] }, extracted: true });
+  });
+
+  it("reports replies that aren't JSON", () => {
+    const result = parseModelJson("I couldn't find any comments.");
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("validateCommentResponse", () => {
+  it("rejects a root that isn't an object with a comments array", () => {
+    expect(errorsOf([])).toEqual(['Root must be a JSON object with a "comments" array']);
+    expect(errorsOf({ comments: "none" })).toEqual(['"comments" must be an array']);
+  });
+
+  it("requires non-empty text", () => {
+    expect(errorsOf({ comments: [{ username: "alice" }, { text: "  " }] })).toEqual([
+      "comments[0].text is required and must be a non-empty string",
+      "comments[1].text is required and must be a non-empty string",
+    ]);
+  });
+
+  it("coerces numbers to strings and numeric strings to counts, skipping nulls", () => {
+    const [comment] = validComments({
+      comments: [{ text: "hi", likes: 5, depth: "1", replyCount: null, username: "" }],
+    });
+    expect(comment).toEqual({ text: "hi", likes: "5", depth: 1 });
+  });
+
+  it("rejects negative and fractional counts", () => {
+    expect(errorsOf({ comments: [{ text: "hi", depth: -1, replyCount: 1.5 }] })).toEqual([
+      "comments[0].depth must be a non-negative integer",
+      "comments[0].replyCount must be a non-negative integer",
+    ]);
+  });
+
+  it("lowercases badges and reaction types", () => {
+    const [comment] = validComments({
+      comments: [{ text: "hi", badges: [" Author "], reactions: [{ type: "Love", count: 3 }] }],
+    });
+    expect(comment.badges).toEqual(["author"]);
+    expect(comment.reactions).toEqual([{ type: "love", count: "3" }]);
+  });
+
+  it("scales boxes on the 0-1000 scale down and clamps small overshoots", () => {
+    const [scaled, clamped] = validComments({
+      comments: [
+        { text: "a", box: { x: 100, y: 200, width: 500, height: 100 } },
+        { text: "b", box: { x: -0.01, y: 0.5, width: 0.5, height: 0.51 } },
+      ],
+    });
+    expect(scaled.box).toEqual({ x: 0.1, y: 0.2, width: 0.5, height: 0.1 });
+    expect(clamped.box?.x).toBe(0);
+    expect(clamped.box?.width).toBeCloseTo(0.49);
+    expect(clamped.box?.height).toBeCloseTo(0.5);
+  });
+
+  it("rejects boxes outside the image", () => {
+    expect(errorsOf({ comments: [{ text: "a", box: { x: 0.5, y: 0.5, width: 0.6, height: 0.1 } }] })).toEqual([
+      "comments[0].box must lie within the image (fractions between 0 and 1)",
+    ]);
+  });
+
+  it("normalizes languages and reads percentages as confidence", () => {
+    const [comment] = validComments({ comments: [{ text: "hola", language: "es-MX", confidence: 85 }] });
+    expect(comment.language).toBe("es");
+    expect(comment.confidence).toBeCloseTo(0.85);
+  });
+});
@@ -0,0 +1,249 @@
+import type { BoundingBox, RawComment } from "@/lib/types";
+import { normalizeLanguageCode } from "@/lib/languages";
+
+// JSON Schema sent to providers that support constrained output. Kept to the
+// subset both Gemini (responseJsonSchema) and OpenAI (json_schema) accept.
+export const COMMENT_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    comments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          username: { type: "string" },
+          text: { type: "string" },
+          timestamp: { type: "string" },
+          likes: { type: "string" },
+          depth: { type: "integer" },
+          replyCount: { type: "integer" },
+          badges: { type: "array", items: { type: "string" } },
+          reactions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { type: { type: "string" }, count: { type: "string" } },
+              required: ["type", "count"],
+            },
+          },
+          box: {
+            type: "object",
+            properties: {
+              x: { type: "number" },
+              y: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["x", "y", "width", "height"],
+          },
+          confidence: { type: "number" },
+          language: { type: "string" },
+        },
+        required: ["text"],
+      },
+    },
+  },
+  required: ["comments"],
+} as const;
+
+export type ValidationResult =
+  | { ok: true; comments: RawComment[] }
+  | { ok: false; errors: string[] };
+
+const OPTIONAL_STRING_FIELDS = ["username", "timestamp", "likes"] as const;
+const OPTIONAL_COUNT_FIELDS = ["depth", "replyCount"] as const;
+
+// How far a box may spill past the image edge before it is rejected rather
+// than clamped
+const BOX_TOLERANCE = 0.02;
+
+// Check a reported box and clamp it to the image. Some models answer on the
+// 0-1000 scale they were trained on, so values above 1 are scaled down.
+function validateBox(value: unknown): BoundingBox | string {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "must be an object with x, y, width and height";
+  }
+  const record = value as Record<string, unknown>;
+  const numbers = [record.x, record.y, record.width, record.height].map((n) =>
+    typeof n === "string" ? Number(n) : n
+  );
+  if (!numbers.every((n): n is number => typeof n === "number" && Number.isFinite(n))) {
+    return "x, y, width and height must be numbers";
+  }
+
+  const scale = numbers.some((n) => n > 1 + BOX_TOLERANCE) ? 1000 : 1;
+  const [x, y, width, height] = numbers.map((n) => n / scale);
+  if (width <= 0 || height <= 0) {
+    return "width and height must be greater than 0";
+  }
+  if (x < -BOX_TOLERANCE || y < -BOX_TOLERANCE || x + width > 1 + BOX_TOLERANCE || y + height > 1 + BOX_TOLERANCE) {
+    return "must lie within the image (fractions between 0 and 1)";
+  }
+
+  const clamp = (start: number, size: number): [number, number] => {
+    const clampedStart = Math.max(start, 0);
+    return start + size > 1 || start < 0
+      ? [clampedStart, Math.min(start + size, 1) - clampedStart]
+      : [start, size];
+  };
+  const [left, boxWidth] = clamp(x, width);
+  const [top, boxHeight] = clamp(y, height);
+  return { x: left, y: top, width: boxWidth, height: boxHeight };
+}
+
+// Pull a JSON document out of a model reply. Models sometimes wrap the JSON in
+// markdown fences or add a sentence before it even when told not to.
+// `extracted` is set when the JSON had to be cut out of surrounding text.
+export function parseModelJson(
+  responseText: string
+): { ok: true; value: unknown; extracted: boolean } | { ok: false; error: string } {
+  let jsonString = responseText.trim();
+
+  const jsonBlockMatch = jsonString.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (jsonBlockMatch) {
+    jsonString = jsonBlockMatch[1].trim();
+  }
+
+  const firstBrace = jsonString.indexOf("{");
+  const lastBrace = jsonString.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    jsonString = jsonString.substring(firstBrace, lastBrace + 1);
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(jsonString), extracted: jsonString !== responseText.trim() };
+  } catch (error) {
+    return { ok: false, error: `Response is not valid JSON: ${(error as Error).message}` };
+  }
+}
+
+// Check a parsed reply against COMMENT_RESPONSE_SCHEMA. Numbers are accepted
+// for string fields (models often emit `"likes": 5`), numeric strings for
+// integer fields, and nulls are treated as omitted; anything else that doesn't fit is reported so it can be fed back.
+export function validateCommentResponse(value: unknown): ValidationResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["Root must be a JSON object with a \"comments\" array"] };
+  }
+
+  const rawComments = (value as Record<string, unknown>).comments;
+  if (!Array.isArray(rawComments)) {
+    return { ok: false, errors: ["\"comments\" must be an array"] };
+  }
+
+  const errors: string[] = [];
+  const comments: RawComment[] = [];
+
+  rawComments.forEach((item, index) => {
+    const path = `comments[${index}]`;
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const record = item as Record<string, unknown>;
+    if (typeof record.text !== "string" || record.text.trim() === "") {
+      errors.push(`${path}.text is required and must be a non-empty string`);
+      return;
+    }
+
+    const comment: RawComment = { text: record.text };
+    for (const field of OPTIONAL_STRING_FIELDS) {
+      const fieldValue = record[field];
+      if (fieldValue === undefined || fieldValue === null || fieldValue === "") {
+        continue;
+      }
+      if (typeof fieldValue === "string") {
+        comment[field] = fieldValue;
+      } else if (typeof fieldValue === "number") {
+        comment[field] = String(fieldValue);
+      } else {
+        errors.push(`${path}.${field} must be a string`);
+      }
+    }
+    for (const field of OPTIONAL_COUNT_FIELDS) {
+      const fieldValue = record[field];
+      if (fieldValue === undefined || fieldValue === null || fieldValue === "") {
+        continue;
+      }
+      const count = typeof fieldValue === "string" ? Number(fieldValue) : fieldValue;
+      if (typeof count === "number" && Number.isInteger(count) && count >= 0) {
+        comment[field] = count;
+      } else {
+        errors.push(`${path}.${field} must be a non-negative integer`);
+      }
+    }
+    if (record.badges !== undefined && record.badges !== null) {
+      if (Array.isArray(record.badges) && record.badges.every((badge) => typeof badge === "string")) {
+        if (record.badges.length > 0) {
+          comment.badges = (record.badges as string[]).map((badge) => badge.trim().toLowerCase());
+        }
+      } else {
+        errors.push(`${path}.badges must be an array of strings`);
+      }
+    }
+    if (record.reactions !== undefined && record.reactions !== null) {
+      const reactions = Array.isArray(record.reactions) ? record.reactions : [];
+      const valid = reactions.every(
+        (reaction) =>
+          typeof reaction === "object" &&
+          reaction !== null &&
+          typeof reaction.type === "string" &&
+          (typeof reaction.count === "string" || typeof reaction.count === "number")
+      );
+      if (Array.isArray(record.reactions) && valid) {
+        if (reactions.length > 0) {
+          comment.reactions = reactions.map((reaction) => ({
+            type: String(reaction.type).trim().toLowerCase(),
+            count: String(reaction.count),
+          }));
+        }
+      } else {
+        errors.push(`${path}.reactions must be an array of {type, count} objects`);
+      }
+    }
+    if (record.box !== undefined && record.box !== null) {
+      const box = validateBox(record.box);
+      if (typeof box === "string") {
+        errors.push(`${path}.box ${box}`);
+      } else {
+        comment.box = box;
+      }
+    }
+    if (record.language !== undefined && record.language !== null && record.language !== "") {
+      const language = typeof record.language === "string" ? normalizeLanguageCode(record.language) : null;
+      if (language) {
+        comment.language = language;
+      } else {
+        errors.push(`${path}.language must be an ISO 639-1 code such as "en"`);
+      }
+    }
+    if (record.confidence !== undefined && record.confidence !== null) {
+      const confidence = typeof record.confidence === "string" ? Number(record.confidence) : record.confidence;
+      if (typeof confidence === "number" && confidence >= 0 && confidence <= 1) {
+        comment.confidence = confidence;
+      } else if (typeof confidence === "number" && confidence > 1 && confidence <= 100) {
+        // Reported as a percentage
+        comment.confidence = confidence / 100;
+      } else {
+        errors.push(`${path}.confidence must be a number between 0 and 1`);
+      }
+    }
+    comments.push(comment);
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, comments };
+}
+
+// Appended to the original prompt when a reply fails validation, so the model
+// sees exactly what was wrong with its previous answer.
+export function buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous answer could not be used:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Previous answer (truncated):
+${previousResponse.substring(0, 2000)}
+
+Extract the comments again and return ONLY a JSON object matching the required format.`;
+}
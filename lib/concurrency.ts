@@ -0,0 +1,47 @@
+// Returns a function that runs at most `limit` tasks at a time; extra calls
+// wait in FIFO order for a free slot.
+export function createLimiter(limit: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= limit) {
+      // The finishing task hands its slot straight to us, so `active` stays put
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const waiter = queue.shift();
+      if (waiter) {
+        waiter();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+// Map over `items` with at most `limit` workers, keeping results in input order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runWorker)
+  );
+  return results;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { scoreConfidence, worstParsePath } from "@/lib/confidence";
+
+describe("scoreConfidence", () => {
+  it("trusts a clean comment at the model's default confidence", () => {
+    expect(scoreConfidence({ text: "Great video", username: "alice" }, "json")).toEqual({ score: 0.9, reasons: [] });
+  });
+
+  it("uses the model's own estimate and flags it when low", () => {
+    expect(scoreConfidence({ text: "Great video", confidence: 0.5 }, "structured")).toEqual({
+      score: 0.5,
+      reasons: ["model unsure"],
+    });
+  });
+
+  it("lowers the score for less reliable parse paths", () => {
+    expect(scoreConfidence({ text: "Great video", confidence: 1 }, "extracted")).toEqual({
+      score: 0.9,
+      reasons: ["reply was not clean JSON"],
+    });
+    expect(scoreConfidence({ text: "Great video", confidence: 1 }, "repaired")).toEqual({
+      score: 0.75,
+      reasons: ["needed a repair prompt"],
+    });
+  });
+
+  it("penalizes signs of a misread comment", () => {
+    const score = (text: string, extra = {}) => scoreConfidence({ text, confidence: 1, ...extra }, "json");
+    expect(score("This is so true…")).toEqual({ score: 0.7, reasons: ["text looks truncated"] });
+    expect(score("Great video", { username: "2h" })).toEqual({ score: 0.6, reasons: ["implausible username"] });
+    expect(score("alice", { username: "alice" })).toEqual({ score: 0.6, reasons: ["text repeats the username"] });
+    expect(score("Great video", { box: { x: 0, y: 0.95, width: 1, height: 0.05 } })).toEqual({
+      score: 0.85,
+      reasons: ["cut off at the image edge"],
+    });
+  });
+
+  it("compounds penalties and keeps the score within 0 and 1", () => {
+    expect(scoreConfidence({ text: "Read more", username: "reply", confidence: 1 }, "json").reasons).toEqual([
+      "text looks truncated",
+      "implausible username",
+    ]);
+    expect(scoreConfidence({ text: "Great video", confidence: 1.5 }, "json").score).toBe(1);
+  });
+});
+
+describe("worstParsePath", () => {
+  it("picks the least reliable path, ignoring missing ones", () => {
+    expect(worstParsePath(["json", undefined, "repaired", "extracted"])).toBe("repaired");
+    expect(worstParsePath(["structured", "json"])).toBe("json");
+    expect(worstParsePath([undefined])).toBeUndefined();
+  });
+});
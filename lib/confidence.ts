@@ -0,0 +1,80 @@
+import type { RawComment } from "@/lib/types";
+
+// How the comments of an image were obtained, from most to least reliable:
+// structured output from the provider, a reply that was clean JSON, JSON
+// dug out of fences or prose, or an answer to a repair prompt
+export type ParsePath = "structured" | "json" | "extracted" | "repaired";
+
+const PARSE_PATHS: ParsePath[] = ["structured", "json", "extracted", "repaired"];
+
+// The least reliable of several paths, for results assembled from parts
+export function worstParsePath(paths: Array<ParsePath | undefined>): ParsePath | undefined {
+  return paths.reduce<ParsePath | undefined>(
+    (worst, path) => (path && (!worst || PARSE_PATHS.indexOf(path) > PARSE_PATHS.indexOf(worst)) ? path : worst),
+    undefined
+  );
+}
+
+export interface Confidence {
+  score: number;
+  // Why the score was lowered, for display next to the comment
+  reasons: string[];
+}
+
+// Used when the model didn't report its own confidence
+const DEFAULT_MODEL_CONFIDENCE = 0.9;
+
+const PATH_FACTORS: Record<ParsePath, number> = {
+  structured: 1,
+  json: 1,
+  extracted: 0.9,
+  repaired: 0.75,
+};
+
+// Boxes this close to the top or bottom edge usually belong to a comment cut
+// off by the screenshot
+const EDGE_MARGIN = 0.01;
+
+function implausibleUsername(username: string): boolean {
+  return (
+    username.length > 40 ||
+    username.trim().split(/\s+/).length > 4 ||
+    // A timestamp or action label read as the author
+    /^(\d+\s*[smhdwy]|reply|like|share|view|see more)\b/i.test(username.trim())
+  );
+}
+
+export function scoreConfidence(comment: RawComment, path: ParsePath): Confidence {
+  const reasons: string[] = [];
+  let score = (comment.confidence ?? DEFAULT_MODEL_CONFIDENCE) * PATH_FACTORS[path];
+  if (comment.confidence !== undefined && comment.confidence < 0.7) {
+    reasons.push("model unsure");
+  }
+  if (path === "extracted" || path === "repaired") {
+    reasons.push(path === "repaired" ? "needed a repair prompt" : "reply was not clean JSON");
+  }
+
+  const penalize = (factor: number, reason: string) => {
+    score *= factor;
+    reasons.push(reason);
+  };
+
+  const text = comment.text.trim();
+  if (/(\.\.\.|…)$/.test(text) || /\b(see|read) more$/i.test(text)) {
+    penalize(0.7, "text looks truncated");
+  }
+  if (text.length < 2) {
+    penalize(0.8, "very short text");
+  }
+  if (comment.username && implausibleUsername(comment.username)) {
+    penalize(0.6, "implausible username");
+  }
+  if (comment.username && comment.username.trim() === text) {
+    penalize(0.6, "text repeats the username");
+  }
+  if (comment.box && (comment.box.y <= EDGE_MARGIN || comment.box.y + comment.box.height >= 1 - EDGE_MARGIN)) {
+    penalize(0.85, "cut off at the image edge");
+  }
+
+  return { score: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100, reasons };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { engagementOf, formatReactionCounts, parseCount, parseReactionCounts, type ParsedCount } from "@/lib/counts";
+
+const exact = (value: number): ParsedCount => ({ value, precision: "exact" });
+const abbreviated = (value: number): ParsedCount => ({ value, precision: "abbreviated" });
+
+describe("parseCount", () => {
+  it("reads plain and thousands-separated counts as exact", () => {
+    expect(parseCount("42")).toEqual(exact(42));
+    expect(parseCount("1,204")).toEqual(exact(1204));
+    expect(parseCount("1.204")).toEqual(exact(1204));
+    expect(parseCount("1 204 likes")).toEqual(exact(1204));
+    expect(parseCount("-5")).toEqual(exact(-5));
+  });
+
+  it("scales abbreviated counts by their suffix", () => {
+    expect(parseCount("1.2K")).toEqual(abbreviated(1200));
+    expect(parseCount("1,2 k")).toEqual(abbreviated(1200));
+    expect(parseCount("3.4M")).toEqual(abbreviated(3_400_000));
+    expect(parseCount("1.2万")).toEqual(abbreviated(12_000));
+    expect(parseCount("2,5 тыс.")).toEqual(abbreviated(2500));
+  });
+
+  it("treats a lone decimal as a rounded figure", () => {
+    expect(parseCount("1.5")).toEqual(abbreviated(2));
+  });
+
+  it("rounds numbers and rejects what it can't read", () => {
+    expect(parseCount(3.6)).toEqual(exact(4));
+    expect(parseCount(Number.NaN)).toBeNull();
+    expect(parseCount(undefined)).toBeNull();
+    expect(parseCount("Like")).toBeNull();
+    expect(parseCount("12x")).toBeNull();
+  });
+});
+
+describe("reaction counts", () => {
+  it("parses a breakdown, skipping unreadable entries", () => {
+    const counts = parseReactionCounts([
+      { type: "like", count: "12" },
+      { type: "love", count: "1.2K" },
+      { type: "wow", count: "?" },
+    ]);
+    expect(counts).toEqual({ like: exact(12), love: abbreviated(1200) });
+    expect(formatReactionCounts(counts)).toBe("like=12; love=1200");
+    expect(parseReactionCounts([{ type: "wow", count: "?" }])).toBeUndefined();
+  });
+
+  it("ranks by likes, falling back to the reaction total", () => {
+    expect(engagementOf({ likesCount: exact(5), reactionCounts: { like: exact(100) } })).toBe(5);
+    expect(engagementOf({ reactionCounts: { like: exact(12), love: exact(3) } })).toBe(15);
+    expect(engagementOf({})).toBe(0);
+  });
+});
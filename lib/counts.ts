@@ -0,0 +1,99 @@
+// Parse the like/reaction counts shown on screen ("1.2K", "1,204", "1,2 k",
+// "1.2万", "-5") into integers. Abbreviated values are only as precise as
+// the display, so each result says whether it is exact.
+
+export interface ParsedCount {
+  value: number;
+  precision: "exact" | "abbreviated";
+}
+
+const MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(k|тыс|mil|千|천)$/i, 1e3],
+  [/^(万|萬|만)$/, 1e4],
+  [/^(l|lakh|lac)$/i, 1e5],
+  [/^(m|mn|mio|mill?|млн)$/i, 1e6],
+  [/^(cr|crore)$/i, 1e7],
+  [/^(億|亿|억)$/, 1e8],
+  [/^(b|bn|md|mrd|млрд)$/i, 1e9],
+];
+
+function multiplierFor(suffix: string): number | null {
+  for (const [pattern, multiplier] of MULTIPLIERS) {
+    if (pattern.test(suffix)) return multiplier;
+  }
+  return null;
+}
+
+export function parseCount(raw: string | number | undefined | null): ParsedCount | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? { value: Math.round(raw), precision: "exact" } : null;
+  }
+
+  const text = raw
+    .replace(/[  ]/g, " ")
+    .replace(/\b(likes?|points?|votes?|reactions?|hearts?)\b/gi, "")
+    .trim();
+  const match = text.match(/^([-+−]?)\s*(\d[\d.,' ]*)\s*([^\d\s]*)$/);
+  if (!match) return null;
+
+  const sign = match[1] === "-" || match[1] === "−" ? -1 : 1;
+  const digits = match[2].trim();
+  const suffix = match[3].trim().replace(/\.$/, "");
+
+  if (suffix) {
+    const multiplier = multiplierFor(suffix);
+    if (multiplier === null) return null;
+    // With a suffix the only separator is a decimal mark: "1.2K", "1,2 k"
+    const value = Number(digits.replace(/\s/g, "").replace(",", "."));
+    return Number.isFinite(value)
+      ? { value: sign * Math.round(value * multiplier), precision: "abbreviated" }
+      : null;
+  }
+
+  // Without a suffix, separators followed by groups of three digits are
+  // thousands separators ("1,204", "1.204", "1 204", "1'204")
+  if (/^\d{1,3}([.,' ]\d{3})+$/.test(digits)) {
+    return { value: sign * Number(digits.replace(/[.,' ]/g, "")), precision: "exact" };
+  }
+  if (/^\d+$/.test(digits)) {
+    return { value: sign * Number(digits), precision: "exact" };
+  }
+  // Anything else ("1.5") is a rounded figure
+  const value = Number(digits.replace(/\s/g, "").replace(",", "."));
+  return Number.isFinite(value) ? { value: sign * Math.round(value), precision: "abbreviated" } : null;
+}
+
+// Parse every entry of a per-reaction breakdown, skipping unreadable ones
+export function parseReactionCounts(
+  reactions: Array<{ type: string; count: string }> | undefined
+): Record<string, ParsedCount> | undefined {
+  if (!reactions) return undefined;
+  const parsed: Record<string, ParsedCount> = {};
+  for (const reaction of reactions) {
+    const count = parseCount(reaction.count);
+    if (count) parsed[reaction.type] = count;
+  }
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+// Single engagement figure for sorting: the like count, or the sum of the
+// reaction breakdown when only that was captured
+export function engagementOf(comment: {
+  likesCount?: ParsedCount;
+  reactionCounts?: Record<string, ParsedCount>;
+}): number {
+  if (comment.likesCount) return comment.likesCount.value;
+  if (comment.reactionCounts) {
+    return Object.values(comment.reactionCounts).reduce((sum, count) => sum + count.value, 0);
+  }
+  return 0;
+}
+
+// "like=12; love=3" for exports
+export function formatReactionCounts(reactions: Record<string, ParsedCount> | undefined): string | undefined {
+  if (!reactions) return undefined;
+  return Object.entries(reactions)
+    .map(([reaction, count]) => `${reaction}=${count.value}`)
+    .join("; ");
+}
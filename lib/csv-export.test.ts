@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  CSV_DELIMITERS,
+  DEFAULT_CSV_OPTIONS,
+  EXPORT_COLUMNS,
+  generateCSV,
+  parseCsvOptions,
+  resolveColumns,
+  type Comment,
+} from "@/lib/csv-export";
+
+const comment = (fields: Partial<Comment> = {}): Comment => ({
+  imageName: "shot.png",
+  username: "alice",
+  text: "hello",
+  ...fields,
+});
+
+// Only the columns a test cares about, to keep expected rows short
+const columns = (...keys: string[]) => keys.map((key) => ({ key }));
+
+describe("generateCSV", () => {
+  it("writes every column with its default header by default", () => {
+    const [header] = generateCSV([comment()]).split("\n");
+    expect(header.split(",")).toEqual(EXPORT_COLUMNS.map((column) => column.header));
+  });
+
+  it.each(CSV_DELIMITERS)("separates fields with %j", (delimiter) => {
+    const csv = generateCSV([comment()], { delimiter, columns: columns("username", "text") });
+    expect(csv).toBe(`Username${delimiter}Comment Text\nalice${delimiter}hello`);
+  });
+
+  it("quotes values containing the delimiter", () => {
+    expect(generateCSV([comment({ text: "a;b" })], { delimiter: ";", columns: columns("text") })).toBe(
+      'Comment Text\n"a;b"'
+    );
+    // A comma only needs quoting when it's the delimiter
+    expect(generateCSV([comment({ text: "a,b" })], { delimiter: ";", columns: columns("text") })).toBe(
+      "Comment Text\na,b"
+    );
+  });
+
+  it("quotes and doubles quotes", () => {
+    expect(generateCSV([comment({ text: 'say "hi"' })], { columns: columns("text") })).toBe(
+      'Comment Text\n"say ""hi"""'
+    );
+  });
+
+  it("quotes line feeds and carriage returns", () => {
+    const csv = generateCSV([comment({ text: "one\ntwo" }), comment({ text: "three\rfour" })], {
+      columns: columns("text"),
+    });
+    expect(csv).toBe('Comment Text\n"one\ntwo"\n"three\rfour"');
+  });
+
+  it("starts with a byte order mark only when asked", () => {
+    const options = { columns: columns("text") };
+    expect(generateCSV([comment()], { ...options, bom: true })).toBe("\uFEFFComment Text\nhello");
+    expect(generateCSV([comment()], options).startsWith("\uFEFF")).toBe(false);
+  });
+
+  it("ends records with CRLF only when asked", () => {
+    const options = { columns: columns("username", "text") };
+    expect(generateCSV([comment(), comment()], { ...options, crlf: true })).toBe(
+      "Username,Comment Text\r\nalice,hello\r\nalice,hello"
+    );
+    expect(generateCSV([comment(), comment()], options)).not.toContain("\r");
+  });
+
+  it("keeps line breaks inside quoted values as they are with CRLF", () => {
+    expect(generateCSV([comment({ text: "a\nb" })], { crlf: true, columns: columns("text") })).toBe(
+      'Comment Text\r\n"a\nb"'
+    );
+  });
+
+  it("writes only the chosen columns, in the chosen order", () => {
+    const csv = generateCSV([comment({ likes: "3" })], { columns: columns("likes", "username") });
+    expect(csv).toBe("Likes,Username\n3,alice");
+  });
+
+  it("uses custom header labels", () => {
+    const csv = generateCSV([comment()], {
+      columns: [{ key: "username", label: "Author" }, { key: "text" }],
+    });
+    expect(csv).toBe("Author,Comment Text\nalice,hello");
+  });
+
+  describe("formula neutralization", () => {
+    it.each(["=SUM(A1)", "+1", "-x", "@user", "\tcmd", "\rcmd"])("prefixes text starting like %j", (text) => {
+      const csv = generateCSV([comment({ text })], { columns: columns("text") });
+      expect(csv.split("\n").slice(1).join("\n")).toMatch(/^"?'/);
+    });
+
+    it("leaves text cells alone when turned off", () => {
+      const csv = generateCSV([comment({ text: "=1+1" })], { neutralizeFormulas: false, columns: columns("text") });
+      expect(csv).toBe("Comment Text\n=1+1");
+    });
+
+    it("doesn't prefix numbers, so negative values stay numeric", () => {
+      const csv = generateCSV([comment({ box: { x: -0.25, y: 0, width: 1, height: 1 } })], {
+        columns: columns("boxX"),
+      });
+      expect(csv).toBe("Box X\n-0.25");
+    });
+
+    it("doesn't prefix text that only contains formula characters later", () => {
+      expect(generateCSV([comment({ text: "1+1=2" })], { columns: columns("text") })).toBe("Comment Text\n1+1=2");
+    });
+
+    it("neutralizes header labels too", () => {
+      const csv = generateCSV([comment()], { columns: [{ key: "text", label: "=HYPERLINK()" }] });
+      expect(csv.split("\n")[0]).toBe("'=HYPERLINK()");
+    });
+  });
+});
+
+describe("resolveColumns", () => {
+  it("returns every column with its default label when nothing is chosen", () => {
+    expect(resolveColumns().map((column) => [column.key, column.label])).toEqual(
+      EXPORT_COLUMNS.map((column) => [column.key, column.header])
+    );
+  });
+
+  it("drops unknown keys and falls back to the default for blank labels", () => {
+    const resolved = resolveColumns([{ key: "gone" }, { key: "text", label: "  " }, { key: "id", label: " Key " }]);
+    expect(resolved.map((column) => [column.key, column.label])).toEqual([
+      ["text", "Comment Text"],
+      ["id", "Key"],
+    ]);
+  });
+
+  it("returns no columns for an empty choice", () => {
+    expect(resolveColumns([])).toEqual([]);
+  });
+});
+
+describe("parseCsvOptions", () => {
+  it.each([undefined, null, "x", 1, []])("falls back to the defaults for %j", (value) => {
+    expect(parseCsvOptions(value)).toEqual(DEFAULT_CSV_OPTIONS);
+  });
+
+  it("keeps valid options", () => {
+    const options = {
+      delimiter: "\t",
+      bom: true,
+      crlf: true,
+      neutralizeFormulas: false,
+      columns: [{ key: "text", label: "Body" }, { key: "username" }],
+    };
+    expect(parseCsvOptions(options)).toEqual(options);
+  });
+
+  it("replaces invalid fields with their defaults", () => {
+    expect(parseCsvOptions({ delimiter: ":", bom: "yes", crlf: 1, neutralizeFormulas: null })).toEqual({
+      ...DEFAULT_CSV_OPTIONS,
+      columns: undefined,
+    });
+  });
+
+  it("drops unknown and malformed column choices and extra fields", () => {
+    const parsed = parseCsvOptions({
+      columns: [{ key: "nope" }, { key: "text", label: 3 }, null, "id", { key: "id", label: "Key", extra: true }],
+    });
+    expect(parsed.columns).toEqual([{ key: "id", label: "Key" }]);
+  });
+});
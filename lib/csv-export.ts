@@ -1,46 +1,201 @@
+import type { BoundingBox } from "@/lib/types";
+
 export interface Comment {
   imageName: string;
+  platform?: string;
+  id?: string;
+  parentId?: string;
+  depth?: number;
+  replyCount?: number;
   username?: string;
   text: string;
   timestamp?: string;
+  // Normalized forms of `timestamp`: a best-estimate datetime and, for coarse
+  // values, an ISO-8601 interval ("start/end")
+  timestampIso?: string;
+  timestampRange?: string;
   likes?: string;
+  // `likes` as an integer, and whether it was exact or abbreviated ("1.2K")
+  likesCount?: number;
+  likesPrecision?: string;
+  // Per-reaction counts, "like=12; love=3"
+  reactions?: string;
+  badges?: string[];
+  // Combined confidence score, 0 to 1
+  confidence?: number;
+  // Labels from the enrichment pass
+  sentiment?: string;
+  intent?: string;
+  topics?: string[];
+  // ISO 639-1 code of `text`, and `text` translated into `translationLanguage`
+  language?: string;
+  translation?: string;
+  translationLanguage?: string;
+  // Where the comment sits in its image, as fractions of the image size
+  box?: BoundingBox;
+  // Images the comment appeared in when overlapping captures were merged
+  seenIn?: string[];
+  // What a person changed by hand before export
+  edits?: string[];
 }
 
-export function generateCSV(comments: Comment[]): string {
-  // CSV header
-  const headers = ["Image Name", "Username", "Comment Text", "Timestamp", "Likes"];
-  
-  // Escape CSV values (handle commas, quotes, newlines)
-  const escapeCSV = (value: string | undefined | null): string => {
-    if (!value) return "";
-    // Replace quotes with double quotes and wrap in quotes if contains comma, quote, or newline
-    const escaped = value.replace(/"/g, '""');
-    if (escaped.includes(",") || escaped.includes('"') || escaped.includes("\n")) {
+// Box coordinates beyond four decimals are noise
+const formatFraction = (value: number | undefined) =>
+  value === undefined ? undefined : Number(value.toFixed(4));
+
+export type ColumnType = "text" | "number" | "date";
+
+export interface ExportColumn {
+  // Stable id for saved column choices; `header` is only the default label
+  key: string;
+  header: string;
+  // "number" and "date" columns become typed cells in spreadsheet exports
+  type: ColumnType;
+  value: (comment: Comment) => string | number | undefined;
+}
+
+// The flat export layout, in column order
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "imageName", header: "Image Name", type: "text", value: (c) => c.imageName },
+  { key: "username", header: "Username", type: "text", value: (c) => c.username },
+  { key: "text", header: "Comment Text", type: "text", value: (c) => c.text },
+  { key: "timestamp", header: "Timestamp", type: "text", value: (c) => c.timestamp },
+  { key: "likes", header: "Likes", type: "text", value: (c) => c.likes },
+  { key: "id", header: "ID", type: "text", value: (c) => c.id },
+  { key: "parentId", header: "Parent ID", type: "text", value: (c) => c.parentId },
+  { key: "depth", header: "Depth", type: "number", value: (c) => c.depth },
+  { key: "replyCount", header: "Reply Count", type: "number", value: (c) => c.replyCount },
+  { key: "seenIn", header: "Seen In", type: "text", value: (c) => c.seenIn?.join("; ") },
+  { key: "platform", header: "Platform", type: "text", value: (c) => c.platform },
+  { key: "badges", header: "Badges", type: "text", value: (c) => c.badges?.join("; ") },
+  { key: "timestampIso", header: "Timestamp (ISO)", type: "date", value: (c) => c.timestampIso },
+  { key: "timestampRange", header: "Timestamp Range", type: "text", value: (c) => c.timestampRange },
+  { key: "likesCount", header: "Likes (Number)", type: "number", value: (c) => c.likesCount },
+  { key: "likesPrecision", header: "Likes Precision", type: "text", value: (c) => c.likesPrecision },
+  { key: "reactions", header: "Reactions", type: "text", value: (c) => c.reactions },
+  { key: "boxX", header: "Box X", type: "number", value: (c) => formatFraction(c.box?.x) },
+  { key: "boxY", header: "Box Y", type: "number", value: (c) => formatFraction(c.box?.y) },
+  { key: "boxWidth", header: "Box Width", type: "number", value: (c) => formatFraction(c.box?.width) },
+  { key: "boxHeight", header: "Box Height", type: "number", value: (c) => formatFraction(c.box?.height) },
+  { key: "confidence", header: "Confidence", type: "number", value: (c) => c.confidence },
+  { key: "sentiment", header: "Sentiment", type: "text", value: (c) => c.sentiment },
+  { key: "intent", header: "Intent", type: "text", value: (c) => c.intent },
+  { key: "topics", header: "Topics", type: "text", value: (c) => c.topics?.join("; ") },
+  { key: "language", header: "Language", type: "text", value: (c) => c.language },
+  { key: "translation", header: "Translation", type: "text", value: (c) => c.translation },
+  { key: "translationLanguage", header: "Translation Language", type: "text", value: (c) => c.translationLanguage },
+  { key: "edits", header: "Edited", type: "text", value: (c) => c.edits?.join("; ") },
+];
+
+export interface ColumnChoice {
+  key: string;
+  // Header label to use instead of the column's default
+  label?: string;
+}
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+export interface CsvOptions {
+  delimiter: string;
+  // A UTF-8 byte order mark, without which Excel reads the file as ANSI
+  bom: boolean;
+  // Windows line endings between records
+  crlf: boolean;
+  // Prefix text cells starting with =, +, - or @ with an apostrophe so
+  // spreadsheets show them instead of running them as formulas
+  neutralizeFormulas: boolean;
+  // Columns to write, in order; every column in EXPORT_COLUMNS order when unset
+  columns?: ColumnChoice[];
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ",",
+  bom: false,
+  crlf: false,
+  neutralizeFormulas: true,
+};
+
+// Leading characters that make Excel, Sheets and LibreOffice treat a cell as
+// a formula. Tab and carriage return are included because some of them skip
+// leading whitespace before checking.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// The chosen columns with their header labels. Unknown keys are dropped, so
+// saved choices survive columns being renamed or removed.
+export function resolveColumns(choices?: ColumnChoice[]): Array<ExportColumn & { label: string }> {
+  if (!choices) {
+    return EXPORT_COLUMNS.map((column) => ({ ...column, label: column.header }));
+  }
+  return choices.flatMap((choice) => {
+    const column = EXPORT_COLUMNS.find((candidate) => candidate.key === choice.key);
+    return column ? [{ ...column, label: choice.label?.trim() || column.header }] : [];
+  });
+}
+
+// Read options saved by the client, falling back to the defaults for
+// anything missing or malformed
+export function parseCsvOptions(value: unknown): CsvOptions {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return DEFAULT_CSV_OPTIONS;
+  }
+  const { delimiter, bom, crlf, neutralizeFormulas, columns } = value as Record<string, unknown>;
+  return {
+    delimiter:
+      typeof delimiter === "string" && CSV_DELIMITERS.includes(delimiter)
+        ? delimiter
+        : DEFAULT_CSV_OPTIONS.delimiter,
+    bom: typeof bom === "boolean" ? bom : DEFAULT_CSV_OPTIONS.bom,
+    crlf: typeof crlf === "boolean" ? crlf : DEFAULT_CSV_OPTIONS.crlf,
+    neutralizeFormulas:
+      typeof neutralizeFormulas === "boolean" ? neutralizeFormulas : DEFAULT_CSV_OPTIONS.neutralizeFormulas,
+    columns: Array.isArray(columns)
+      ? columns
+          .filter(
+            (choice): choice is ColumnChoice =>
+              typeof choice?.key === "string" &&
+              (choice.label === undefined || typeof choice.label === "string") &&
+              EXPORT_COLUMNS.some((column) => column.key === choice.key)
+          )
+          .map(({ key, label }) => ({ key, label }))
+      : undefined,
+  };
+}
+
+export function generateCSV(comments: Comment[], options: Partial<CsvOptions> = {}): string {
+  const { delimiter, bom, crlf, neutralizeFormulas, columns } = { ...DEFAULT_CSV_OPTIONS, ...options };
+
+  const escapeCSV = (value: string | number | undefined | null): string => {
+    if (value === undefined || value === null || value === "") return "";
+    // Numbers are never formulas, and a negative count must stay a number
+    let text = String(value);
+    if (neutralizeFormulas && typeof value === "string" && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    // Double any quotes, and quote values containing the delimiter, a quote
+    // or a line break
+    const escaped = text.replace(/"/g, '""');
+    if (escaped.includes(delimiter) || /["\r\n]/.test(escaped)) {
       return `"${escaped}"`;
     }
     return escaped;
   };
 
-  // Build CSV rows
-  const rows = comments.map((comment) => [
-    escapeCSV(comment.imageName),
-    escapeCSV(comment.username),
-    escapeCSV(comment.text),
-    escapeCSV(comment.timestamp),
-    escapeCSV(comment.likes),
-  ]);
+  const selected = resolveColumns(columns);
+  const lines = [
+    selected.map((column) => escapeCSV(column.label)).join(delimiter),
+    ...comments.map((comment) => selected.map((column) => escapeCSV(column.value(comment))).join(delimiter)),
+  ];
 
-  // Combine header and rows
-  const csvContent = [
-    headers.join(","),
-    ...rows.map((row) => row.join(",")),
-  ].join("\n");
-
-  return csvContent;
+  return (bom ? "\uFEFF" : "") + lines.join(crlf ? "\r\n" : "\n");
 }
 
 export function downloadCSV(csvContent: string, filename: string = "comments.csv") {
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+  downloadFile(csvContent, filename, "text/csv;charset=utf-8;");
+}
+
+export function downloadFile(content: string | Uint8Array, filename: string, type: string) {
+  // Copied so the Blob gets a plain ArrayBuffer-backed view
+  const blob = new Blob([typeof content === "string" ? content : new Uint8Array(content)], { type });
   const link = document.createElement("a");
   const url = URL.createObjectURL(blob);
   
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { applyEdits, resultKey, type CommentEdit } from "@/lib/edits";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+const result = (comments: ExtractedComment[], extra: Partial<ProcessedComment> = {}): ProcessedComment => ({
+  imageName: "shot.png",
+  fileIndex: 0,
+  status: "succeeded",
+  comments,
+  rawResponse: "",
+  ...extra,
+});
+
+// a
+//   a1
+//     a11
+// b
+const thread = () =>
+  result([
+    { id: "a", depth: 0, username: "alice", text: "Hello world", translation: { language: "es", text: "Hola mundo" } },
+    { id: "a1", parentId: "a", depth: 1, username: "bob", text: "Hi", likes: "3" },
+    { id: "a11", parentId: "a1", depth: 2, username: "carol", text: "there", timestamp: "2h" },
+    { id: "b", depth: 0, username: "dave", text: "Second thread" },
+  ]);
+
+const key = resultKey(thread());
+const edited = (...edits: CommentEdit[]) => applyEdits([thread()], edits)[0].comments;
+const shape = (comments: ExtractedComment[]) => comments.map(({ id, depth, parentId }) => [id, depth, parentId]);
+
+describe("applyEdits", () => {
+  it("updates fields, re-deriving what depends on them", () => {
+    const [first, reply] = edited(
+      { type: "update", resultKey: key, commentId: "a", changes: { text: "Hello there" } },
+      { type: "update", resultKey: key, commentId: "a1", changes: { likes: "1.2K" } }
+    );
+    expect(first).toMatchObject({ text: "Hello there", translation: undefined, edits: ["text"] });
+    expect(reply.likesCount).toEqual({ value: 1200, precision: "abbreviated" });
+  });
+
+  it("re-threads after a change of depth", () => {
+    expect(shape(edited({ type: "update", resultKey: key, commentId: "b", changes: { depth: 1 } }))).toEqual([
+      ["a", 0, undefined],
+      ["a1", 1, "a"],
+      ["a11", 2, "a1"],
+      ["b", 1, "a"],
+    ]);
+  });
+
+  it("moves the replies of a deleted comment up to its parent", () => {
+    expect(shape(edited({ type: "delete", resultKey: key, commentId: "a1" }))).toEqual([
+      ["a", 0, undefined],
+      ["a11", 1, "a"],
+      ["b", 0, undefined],
+    ]);
+    expect(shape(edited({ type: "delete", resultKey: key, commentId: "a" }))).toEqual([
+      ["a1", 0, undefined],
+      ["a11", 1, "a1"],
+      ["b", 0, undefined],
+    ]);
+  });
+
+  it("splits a comment into a sibling right after it", () => {
+    const comments = edited({ type: "split", resultKey: key, commentId: "a", at: 5, newId: "e_1" });
+    expect(comments.slice(0, 2)).toEqual([
+      expect.objectContaining({ id: "a", text: "Hello", translation: undefined, edits: ["split"] }),
+      { id: "e_1", depth: 0, parentId: undefined, text: "world", edits: ["split"] },
+    ]);
+    // Replies stay with the comment they answered
+    expect(comments[2].parentId).toBe("a");
+  });
+
+  it("ignores a split at either end of the text", () => {
+    expect(edited({ type: "split", resultKey: key, commentId: "a", at: 0, newId: "e_1" })).toEqual(thread().comments);
+    expect(edited({ type: "split", resultKey: key, commentId: "a", at: 11, newId: "e_1" })).toEqual(thread().comments);
+  });
+
+  it("merges a comment with the next one, keeping the first values found", () => {
+    const comments = edited({ type: "merge", resultKey: key, commentId: "a1" });
+    expect(shape(comments)).toEqual([
+      ["a", 0, undefined],
+      ["a1", 1, "a"],
+      ["b", 0, undefined],
+    ]);
+    expect(comments[1]).toMatchObject({ text: "Hi there", likes: "3", timestamp: "2h", edits: ["merged"] });
+    expect(edited({ type: "merge", resultKey: key, commentId: "b" })).toEqual(thread().comments);
+  });
+
+  it("adds a missed comment after another or at the end", () => {
+    const added = edited(
+      { type: "add", resultKey: key, afterId: "a11", newId: "e_1", comment: { text: "Me too", depth: 2 } },
+      { type: "add", resultKey: key, newId: "e_2", comment: { text: "Last" } }
+    );
+    expect(shape(added)).toEqual([
+      ["a", 0, undefined],
+      ["a1", 1, "a"],
+      ["a11", 2, "a1"],
+      ["e_1", 2, "a1"],
+      ["b", 0, undefined],
+      ["e_2", 0, undefined],
+    ]);
+    expect(added[5].edits).toEqual(["added"]);
+  });
+
+  it("only applies edits to the result they were made on", () => {
+    const imported = result([{ id: "a", depth: 0, text: "Same name" }], { imported: true });
+    const failed = result([], { fileIndex: 1, status: "failed" });
+    const edits: CommentEdit[] = [
+      { type: "delete", resultKey: key, commentId: "a" },
+      { type: "delete", resultKey: key, commentId: "missing" },
+      { type: "add", resultKey: resultKey(failed), newId: "e_1", comment: { text: "Lost" } },
+    ];
+    const [extracted, importedAfter, failedAfter] = applyEdits([thread(), imported, failed], edits);
+    expect(extracted.comments.map((comment) => comment.id)).toEqual(["a1", "a11", "b"]);
+    expect(importedAfter).toBe(imported);
+    expect(failedAfter).toBe(failed);
+  });
+});
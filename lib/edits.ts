@@ -0,0 +1,155 @@
+import { parseCount } from "@/lib/counts";
+import { normalizeTimestamp } from "@/lib/timestamps";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+// Client-safe corrections made by hand in the Results section. Edits are
+// kept as a log and replayed over the results whenever they change, so a
+// result that streams in late or an undo needs no special handling. Edits
+// whose comment no longer exists are skipped.
+
+// Which result an edit belongs to. Image names can repeat, e.g. the same file
+// uploaded twice or an imported image extracted again, so results are told
+// apart by where they came from instead.
+export function resultKey(result: Pick<ProcessedComment, "imported" | "fileIndex" | "pageNumber">): string {
+  return `${result.imported ? "imported" : "extracted"}:${result.fileIndex}:${result.pageNumber ?? ""}`;
+}
+
+// Fields a person can change on a comment card
+export type CommentChanges = Partial<
+  Pick<ExtractedComment, "username" | "text" | "timestamp" | "likes" | "depth" | "badges" | "language">
+>;
+
+export type CommentEdit =
+  | { type: "update"; resultKey: string; commentId: string; changes: CommentChanges }
+  | { type: "delete"; resultKey: string; commentId: string }
+  // Cut the text at `at`; the rest becomes a new comment `newId` right after
+  | { type: "split"; resultKey: string; commentId: string; at: number; newId: string }
+  // Append the next comment in source order to this one
+  | { type: "merge"; resultKey: string; commentId: string }
+  // A comment the model missed, after `afterId` or at the end of the image
+  | { type: "add"; resultKey: string; afterId?: string; newId: string; comment: CommentChanges };
+
+// Ids for split and added comments, unique within a session
+let nextEditId = 0;
+export function createEditId(): string {
+  nextEditId += 1;
+  return `e_${Date.now().toString(36)}_${nextEditId}`;
+}
+
+// Mark what a person changed, keeping earlier marks
+function markEdited(comment: ExtractedComment, ...kinds: string[]): ExtractedComment {
+  const edits = new Set(comment.edits);
+  kinds.forEach((kind) => edits.add(kind));
+  return { ...comment, edits: Array.from(edits) };
+}
+
+// Derived fields follow the values a person typed
+function applyChanges(
+  comment: ExtractedComment,
+  changes: CommentChanges,
+  result: ProcessedComment
+): ExtractedComment {
+  const updated: ExtractedComment = { ...comment, ...changes };
+  if ("timestamp" in changes) {
+    updated.timestampNormalized =
+      normalizeTimestamp(changes.timestamp, {
+        reference: result.capturedAt ? new Date(result.capturedAt) : new Date(),
+        timezoneOffset: new Date().getTimezoneOffset(),
+      }) ?? undefined;
+  }
+  if ("likes" in changes) {
+    updated.likesCount = parseCount(changes.likes) ?? undefined;
+  }
+  if ("text" in changes) {
+    // The translation was of the old text
+    updated.translation = undefined;
+  }
+  return markEdited(updated, ...Object.keys(changes));
+}
+
+// Re-link replies after comments were added, removed or re-nested, the way
+// assignThreads does on extraction: each reply answers the closest earlier
+// comment one level up
+function rethread(comments: ExtractedComment[]): ExtractedComment[] {
+  const ancestors: string[] = [];
+  return comments.map((comment) => {
+    const depth = ancestors.length === 0 ? comment.depth : Math.min(comment.depth, ancestors.length);
+    const parentId = depth > 0 ? ancestors[depth - 1] : undefined;
+    ancestors.length = Math.min(ancestors.length, depth);
+    ancestors[depth] = comment.id;
+    return comment.depth === depth && comment.parentId === parentId ? comment : { ...comment, depth, parentId };
+  });
+}
+
+function applyEdit(comments: ExtractedComment[], edit: CommentEdit, result: ProcessedComment): ExtractedComment[] {
+  if (edit.type === "add") {
+    const added = markEdited({ id: edit.newId, text: "", depth: 0, ...edit.comment }, "added");
+    const after = edit.afterId ? comments.findIndex((comment) => comment.id === edit.afterId) : -1;
+    const index = after === -1 ? comments.length : after + 1;
+    return rethread([...comments.slice(0, index), added, ...comments.slice(index)]);
+  }
+
+  const index = comments.findIndex((comment) => comment.id === edit.commentId);
+  if (index === -1) return comments;
+  const comment = comments[index];
+  const next = [...comments];
+
+  switch (edit.type) {
+    case "update":
+      next[index] = applyChanges(comment, edit.changes, result);
+      return "depth" in edit.changes ? rethread(next) : next;
+    case "delete":
+      // Replies move up to the deleted comment's parent
+      next.splice(index, 1);
+      return rethread(
+        next.map((other) =>
+          other.parentId === comment.id ? { ...other, depth: Math.max(other.depth - 1, 0) } : other
+        )
+      );
+    case "split": {
+      const head = comment.text.substring(0, edit.at).trim();
+      const tail = comment.text.substring(edit.at).trim();
+      if (!head || !tail) return comments;
+      next.splice(
+        index,
+        1,
+        markEdited({ ...comment, text: head, translation: undefined }, "split"),
+        markEdited({ id: edit.newId, parentId: comment.parentId, depth: comment.depth, text: tail }, "split")
+      );
+      return next;
+    }
+    case "merge": {
+      const following = comments[index + 1];
+      if (!following) return comments;
+      next.splice(
+        index,
+        2,
+        markEdited(
+          {
+            ...comment,
+            text: `${comment.text.trimEnd()} ${following.text.trimStart()}`,
+            translation: undefined,
+            timestamp: comment.timestamp ?? following.timestamp,
+            timestampNormalized: comment.timestampNormalized ?? following.timestampNormalized,
+            likes: comment.likes ?? following.likes,
+            likesCount: comment.likesCount ?? following.likesCount,
+            replyCount: comment.replyCount ?? following.replyCount,
+          },
+          "merged"
+        )
+      );
+      return rethread(next);
+    }
+  }
+}
+
+// Replay `edits` in order over `results`
+export function applyEdits(results: ProcessedComment[], edits: CommentEdit[]): ProcessedComment[] {
+  if (edits.length === 0) return results;
+  return results.map((result) => {
+    const key = resultKey(result);
+    const own = edits.filter((edit) => edit.resultKey === key);
+    if (own.length === 0 || result.status === "failed") return result;
+    return { ...result, comments: own.reduce((comments, edit) => applyEdit(comments, edit, result), result.comments) };
+  });
+}
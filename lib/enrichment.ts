@@ -0,0 +1,59 @@
+import { isIntent, isSentiment, type CommentLabels } from "@/lib/labels";
+
+// Comments labelled per model call. Large enough that a typical screenshot
+// needs a single call, small enough to keep replies well under output limits.
+export const ENRICHMENT_BATCH_SIZE = 50;
+
+export function toBatches<T>(items: T[], size = ENRICHMENT_BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+// Read the labels out of an enrichment reply. Entries with unknown ids or
+// labels outside the allowed sets are dropped rather than failing the batch,
+// and topics are matched to the taxonomy case-insensitively.
+export function parseEnrichmentLabels(value: unknown, topics: string[]): Map<string, CommentLabels> {
+  const labels = new Map<string, CommentLabels>();
+  const entries = (value as Record<string, unknown> | null)?.labels;
+  if (!Array.isArray(entries)) return labels;
+
+  const topicsByKey = new Map(topics.map((topic) => [topic.toLowerCase(), topic]));
+  for (const entry of entries) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { id, sentiment, intent, topics: entryTopics } = entry as Record<string, unknown>;
+    const normalizedSentiment = typeof sentiment === "string" ? sentiment.trim().toLowerCase() : sentiment;
+    const normalizedIntent = typeof intent === "string" ? intent.trim().toLowerCase() : intent;
+    if (typeof id !== "string" || !isSentiment(normalizedSentiment) || !isIntent(normalizedIntent)) continue;
+
+    const matchedTopics = Array.isArray(entryTopics)
+      ? entryTopics
+          .map((topic) => (typeof topic === "string" ? topicsByKey.get(topic.trim().toLowerCase()) : undefined))
+          .filter((topic): topic is string => topic !== undefined)
+      : [];
+    labels.set(id, {
+      sentiment: normalizedSentiment,
+      intent: normalizedIntent,
+      topics: Array.from(new Set(matchedTopics)),
+    });
+  }
+  return labels;
+}
+
+// Read the translated texts out of a translation reply, keyed by comment id
+export function parseTranslations(value: unknown): Map<string, string> {
+  const translations = new Map<string, string>();
+  const entries = (value as Record<string, unknown> | null)?.translations;
+  if (!Array.isArray(entries)) return translations;
+
+  for (const entry of entries) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { id, text } = entry as Record<string, unknown>;
+    if (typeof id === "string" && typeof text === "string" && text.trim() !== "") {
+      translations.set(id, text);
+    }
+  }
+  return translations;
+}
@@ -0,0 +1,206 @@
+// Minimal EXIF reader: just enough to find when a photo or screenshot was
+// taken and which way up it is. Handles JPEG (APP1 segment), PNG (eXIf
+// chunk), TIFF files and bare EXIF blocks such as sharp's metadata().exif;
+// anything else, or a file without the tags, yields null.
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+export interface ExifCaptureTime {
+  // "YYYY:MM:DD HH:MM:SS" in the camera's local time
+  dateTime: string;
+  // "+02:00" when the device recorded its UTC offset
+  offset?: string;
+}
+
+function findTiff(buffer: Buffer): Buffer | null {
+  // TIFF files are EXIF structures themselves; bare blocks may keep the
+  // APP1 identifier in front
+  const byteOrder = buffer.toString("latin1", 0, 4);
+  if (byteOrder === "II*\0" || byteOrder === "MM\0*") {
+    return buffer;
+  }
+  if (buffer.toString("latin1", 0, 6) === "Exif\0\0") {
+    return buffer.subarray(6);
+  }
+
+  // JPEG: walk the segments looking for APP1 "Exif\0\0"
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      if (marker === 0xe1 && buffer.toString("latin1", offset + 4, offset + 10) === "Exif\0\0") {
+        return buffer.subarray(offset + 10, offset + 2 + length);
+      }
+      if (marker === 0xda) break; // start of scan: no more metadata
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // PNG: chunks of length + type + data + crc after the 8-byte signature
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString("latin1", offset + 4, offset + 8);
+      if (type === "eXIf") {
+        return buffer.subarray(offset + 8, offset + 8 + length);
+      }
+      if (type === "IDAT" || type === "IEND") break;
+      offset += 12 + length;
+    }
+  }
+
+  return null;
+}
+
+function readIfd(tiff: Buffer, ifdOffset: number, littleEndian: boolean): Map<number, string | number> {
+  const u16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+  const entries = new Map<number, string | number>();
+
+  if (ifdOffset + 2 > tiff.length) return entries;
+  const count = u16(ifdOffset);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const length = u32(entry + 4);
+
+    if (type === 2) {
+      // ASCII: inline when it fits in four bytes, otherwise at an offset
+      const start = length <= 4 ? entry + 8 : u32(entry + 8);
+      if (start + length <= tiff.length) {
+        entries.set(tag, tiff.toString("latin1", start, start + length).replace(/\0+$/, ""));
+      }
+    } else if (type === 3) {
+      entries.set(tag, u16(entry + 8));
+    } else if (type === 4) {
+      entries.set(tag, u32(entry + 8));
+    }
+  }
+  return entries;
+}
+
+function readIfd0(buffer: Buffer): { tiff: Buffer; ifd0: Map<number, string | number>; littleEndian: boolean } | null {
+  const tiff = findTiff(buffer);
+  if (!tiff || tiff.length < 8) return null;
+
+  const byteOrder = tiff.toString("latin1", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return null;
+  const littleEndian = byteOrder === "II";
+  const ifd0Offset = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  return { tiff, ifd0: readIfd(tiff, ifd0Offset, littleEndian), littleEndian };
+}
+
+export function readExifCaptureTime(buffer: Buffer): ExifCaptureTime | null {
+  try {
+    const found = readIfd0(buffer);
+    if (!found) return null;
+
+    const { tiff, ifd0, littleEndian } = found;
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const exif = typeof exifOffset === "number" ? readIfd(tiff, exifOffset, littleEndian) : new Map();
+
+    const dateTime = exif.get(TAG_DATETIME_ORIGINAL) ?? ifd0.get(TAG_DATETIME);
+    if (typeof dateTime !== "string" || !/^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}/.test(dateTime)) {
+      return null;
+    }
+    const offset = exif.get(TAG_OFFSET_TIME_ORIGINAL);
+    return { dateTime, offset: typeof offset === "string" && offset ? offset : undefined };
+  } catch {
+    // Truncated or malformed metadata: treat as absent
+    return null;
+  }
+}
+
+// Convert an EXIF capture time to a Date. Without a recorded offset the time
+// is taken to be in the uploader's timezone.
+export function exifCaptureDate(capture: ExifCaptureTime, timezoneOffset = 0): Date | null {
+  const match = capture.dateTime.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  let offsetMinutes = timezoneOffset;
+  const recorded = capture.offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (recorded) {
+    offsetMinutes = (recorded[1] === "-" ? 1 : -1) * (Number(recorded[2]) * 60 + Number(recorded[3]));
+  }
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) + offsetMinutes * 60 * 1000);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// EXIF orientation (1-8), or null when the tag is absent. 1 is upright.
+export function readExifOrientation(buffer: Buffer): number | null {
+  try {
+    const orientation = readIfd0(buffer)?.ifd0.get(TAG_ORIENTATION);
+    return typeof orientation === "number" && orientation >= 1 && orientation <= 8 ? orientation : null;
+  } catch {
+    return null;
+  }
+}
+
+// A big-endian EXIF APP1 segment holding only the orientation tag
+function orientationSegment(orientation: number): Buffer {
+  const segment = Buffer.alloc(4 + 6 + 8 + 2 + 12 + 4);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(segment.length - 2, 2);
+  segment.write("Exif\0\0MM\0*", 4, "latin1");
+  segment.writeUInt32BE(8, 14); // IFD0 right after the header
+  segment.writeUInt16BE(1, 18); // one entry
+  segment.writeUInt16BE(TAG_ORIENTATION, 20);
+  segment.writeUInt16BE(3, 22); // SHORT
+  segment.writeUInt32BE(1, 24);
+  segment.writeUInt16BE(orientation, 28);
+  return segment; // next-IFD offset stays 0
+}
+
+// JPEG APP1 (EXIF, XMP) and APP13 (IPTC) segments, and PNG metadata chunks
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed]);
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+// Drop metadata from a JPEG or PNG without re-encoding it. A JPEG's
+// orientation survives, since without it the image would be read sideways.
+// Other formats are returned unchanged.
+export function stripExif(buffer: Buffer): Buffer {
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    const orientation = readExifOrientation(buffer);
+    const parts: Buffer[] = [buffer.subarray(0, 2)];
+    if (orientation && orientation !== 1) {
+      parts.push(orientationSegment(orientation));
+    }
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+      const marker = buffer[offset + 1];
+      if (marker === 0xda) break; // start of scan: the rest is image data
+      const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+      if (!JPEG_METADATA_MARKERS.has(marker)) {
+        parts.push(buffer.subarray(offset, end));
+      }
+      offset = end;
+    }
+    parts.push(buffer.subarray(offset));
+    return Buffer.concat(parts);
+  }
+
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    const parts: Buffer[] = [buffer.subarray(0, 8)];
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+      const end = offset + 12 + buffer.readUInt32BE(offset);
+      if (!PNG_METADATA_CHUNKS.has(buffer.toString("latin1", offset + 4, offset + 8))) {
+        parts.push(buffer.subarray(offset, end));
+      }
+      offset = end;
+    }
+    parts.push(buffer.subarray(offset));
+    return Buffer.concat(parts);
+  }
+
+  return buffer;
+}
@@ -0,0 +1,103 @@
+import { buildThreads, groupByImage, platformLabel, type CommentThread } from "./threads";
+import type { Exporter } from "./types";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Inline so the report is a single file that opens anywhere, offline
+const STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+  header p, .summary { color: #666; font-size: 0.9rem; }
+  section { display: grid; grid-template-columns: 200px 1fr; gap: 1.5rem; border-top: 1px solid #ddd; padding: 1.5rem 0; }
+  section > div:first-child img { width: 100%; border: 1px solid #ddd; border-radius: 4px; }
+  .no-thumbnail { display: flex; align-items: center; justify-content: center; height: 120px; background: #f4f4f5; border-radius: 4px; color: #888; font-size: 0.8rem; }
+  h2 { font-size: 1.05rem; margin: 0 0 0.25rem; word-break: break-all; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  ul ul { margin-left: 1.25rem; border-left: 2px solid #eee; padding-left: 0.75rem; }
+  li { margin: 0.6rem 0; }
+  .author { font-weight: 600; color: #2563eb; }
+  .meta { color: #666; font-size: 0.8rem; }
+  .text { white-space: pre-wrap; }
+  .translation { color: #555; font-style: italic; white-space: pre-wrap; }
+  .tag { display: inline-block; background: #f4f4f5; border-radius: 999px; padding: 0 0.5rem; font-size: 0.75rem; margin-right: 0.25rem; }
+  @media print { section { break-inside: avoid; } }
+`;
+
+function renderThread(thread: CommentThread): string {
+  const meta = [thread.timestamp, thread.likes && `❤️ ${thread.likes}`, thread.edits && "edited"]
+    .filter(Boolean)
+    .join(" · ");
+  const tags = [thread.sentiment, thread.intent, ...(thread.topics ?? [])]
+    .filter((tag): tag is string => !!tag)
+    .map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`)
+    .join("");
+  return [
+    "<li>",
+    thread.username ? `<span class="author">@${escapeHtml(thread.username)}</span> ` : "",
+    meta ? `<span class="meta">${escapeHtml(meta)}</span>` : "",
+    `<div class="text">${escapeHtml(thread.text)}</div>`,
+    thread.translation
+      ? `<div class="translation" lang="${escapeHtml(thread.translationLanguage ?? "")}">${escapeHtml(thread.translation)}</div>`
+      : "",
+    tags ? `<div>${tags}</div>` : "",
+    thread.replies.length > 0 ? `<ul>${thread.replies.map(renderThread).join("")}</ul>` : "",
+    "</li>",
+  ].join("");
+}
+
+// A readable, self-contained report: each source image as a thumbnail with
+// its comments and replies beside it
+export const htmlExporter: Exporter = {
+  id: "html",
+  label: "HTML report",
+  extension: "html",
+  mimeType: "text/html;charset=utf-8",
+  usesThumbnails: true,
+  build({ comments, thumbnails, exportedAt }) {
+    const groups = groupByImage(comments);
+    const sections = groups.map((group) => {
+      const thumbnail = thumbnails?.get(group.imageName);
+      const platform = platformLabel(group.platform);
+      return `<section>
+  <div>${
+    thumbnail
+      ? `<img src="${escapeHtml(thumbnail)}" alt="${escapeHtml(group.imageName)}">`
+      : `<div class="no-thumbnail">No preview</div>`
+  }</div>
+  <div>
+    <h2>${escapeHtml(group.imageName)}</h2>
+    <p class="summary">${group.comments.length} comment${group.comments.length !== 1 ? "s" : ""}${
+      platform ? ` · ${escapeHtml(platform)}` : ""
+    }</p>
+    <ul>${buildThreads(group.comments).map(renderThread).join("")}</ul>
+  </div>
+</section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Comment report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>Comment report</h1>
+  <p>${comments.length} comments from ${groups.length} image${groups.length !== 1 ? "s" : ""} · exported ${escapeHtml(
+    exportedAt.toLocaleString()
+  )}</p>
+</header>
+${sections.join("\n")}
+</body>
+</html>
+`;
+  },
+};
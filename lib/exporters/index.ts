@@ -0,0 +1,32 @@
+import { generateCSV } from "@/lib/csv-export";
+import { htmlExporter } from "./html";
+import { jsonExporter, ndjsonExporter } from "./json";
+import { markdownExporter } from "./markdown";
+import type { ExportFormat, Exporter } from "./types";
+import { xlsxExporter } from "./xlsx";
+
+export type { ExportFormat, ExportInput, Exporter } from "./types";
+
+const csvExporter: Exporter = {
+  id: "csv",
+  label: "CSV",
+  extension: "csv",
+  mimeType: "text/csv;charset=utf-8;",
+  build: ({ comments, csvOptions }) => generateCSV(comments, csvOptions),
+};
+
+// Every export format, in the order the format picker lists them
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  csv: csvExporter,
+  xlsx: xlsxExporter,
+  json: jsonExporter,
+  ndjson: ndjsonExporter,
+  markdown: markdownExporter,
+  html: htmlExporter,
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(EXPORTERS, value);
+}
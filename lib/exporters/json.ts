@@ -0,0 +1,35 @@
+import { buildThreads, groupByImage, type CommentThread } from "./threads";
+import type { Exporter } from "./types";
+
+// Image name and platform are given once per image, not on every comment
+function withoutImageFields({ imageName: _imageName, platform: _platform, replies, ...comment }: CommentThread): object {
+  return { ...comment, replies: replies.map(withoutImageFields) };
+}
+
+// One document with comments grouped by image and replies nested under the
+// comment they answer
+export const jsonExporter: Exporter = {
+  id: "json",
+  label: "JSON",
+  extension: "json",
+  mimeType: "application/json",
+  build({ comments, exportedAt }) {
+    const images = groupByImage(comments).map((group) => ({
+      imageName: group.imageName,
+      platform: group.platform,
+      comments: buildThreads(group.comments).map(withoutImageFields),
+    }));
+    return JSON.stringify({ exportedAt: exportedAt.toISOString(), images }, null, 2);
+  },
+};
+
+// One flat comment per line, for streaming into other tools
+export const ndjsonExporter: Exporter = {
+  id: "ndjson",
+  label: "NDJSON",
+  extension: "ndjson",
+  mimeType: "application/x-ndjson",
+  build({ comments }) {
+    return comments.map((comment) => JSON.stringify(comment) + "\n").join("");
+  },
+};
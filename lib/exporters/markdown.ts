@@ -0,0 +1,65 @@
+import type { Comment } from "@/lib/csv-export";
+import { buildThreads, groupByImage, platformLabel, type CommentThread } from "./threads";
+import type { Exporter } from "./types";
+
+// Backslash-escape characters Markdown would otherwise treat as formatting
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|~])/g, "\\$1");
+}
+
+function commentMeta(comment: Comment): string {
+  return [
+    comment.timestamp,
+    comment.likes && `${comment.likes} likes`,
+    comment.sentiment,
+    comment.topics?.length ? comment.topics.join(", ") : undefined,
+    comment.edits && "edited",
+  ]
+    .filter(Boolean)
+    .map((part) => escapeMarkdown(part!))
+    .join(" · ");
+}
+
+// A nested bullet per comment; continuation lines stay inside the bullet
+function renderThread(thread: CommentThread, level: number): string[] {
+  const indent = "  ".repeat(level);
+  const author = thread.username ? `**@${escapeMarkdown(thread.username)}**` : "**(unknown)**";
+  const meta = commentMeta(thread);
+  const [first, ...rest] = escapeMarkdown(thread.text).split("\n");
+  const lines = [
+    `${indent}- ${author}${meta ? ` _(${meta})_` : ""}: ${first}`,
+    ...rest.map((line) => `${indent}  ${line}`),
+  ];
+  if (thread.translation) {
+    lines.push(`${indent}  > ${escapeMarkdown(thread.translation).replace(/\n/g, " ")}`);
+  }
+  return [...lines, ...thread.replies.flatMap((reply) => renderThread(reply, level + 1))];
+}
+
+export const markdownExporter: Exporter = {
+  id: "markdown",
+  label: "Markdown",
+  extension: "md",
+  mimeType: "text/markdown;charset=utf-8",
+  build({ comments, exportedAt }) {
+    const groups = groupByImage(comments);
+    const sections = groups.map((group) =>
+      [
+        `## ${escapeMarkdown(group.imageName)}`,
+        "",
+        `${group.comments.length} comment${group.comments.length !== 1 ? "s" : ""}${
+          group.platform ? ` · ${platformLabel(group.platform)}` : ""
+        }`,
+        "",
+        ...buildThreads(group.comments).flatMap((thread) => renderThread(thread, 0)),
+      ].join("\n")
+    );
+    return [
+      "# Extracted comments",
+      "",
+      `${comments.length} comments from ${groups.length} image${groups.length !== 1 ? "s" : ""}, exported ${exportedAt.toISOString()}`,
+      "",
+      ...sections.flatMap((section) => [section, ""]),
+    ].join("\n");
+  },
+};
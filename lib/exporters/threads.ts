@@ -0,0 +1,46 @@
+import type { Comment } from "@/lib/csv-export";
+import { isPlatformId, PLATFORM_LABELS } from "@/lib/platforms";
+
+export interface ImageGroup {
+  imageName: string;
+  platform?: string;
+  comments: Comment[];
+}
+
+export type CommentThread = Comment & { replies: CommentThread[] };
+
+// Split a flat export into one group per image, in the order images first
+// appear
+export function groupByImage(comments: Comment[]): ImageGroup[] {
+  const groups = new Map<string, ImageGroup>();
+  for (const comment of comments) {
+    let group = groups.get(comment.imageName);
+    if (!group) {
+      group = { imageName: comment.imageName, platform: comment.platform, comments: [] };
+      groups.set(comment.imageName, group);
+    }
+    group.comments.push(comment);
+  }
+  return Array.from(groups.values());
+}
+
+// Nest replies under their parents. Comments whose parent isn't in the list
+// (held back for review, or cut off the screenshot) become top-level.
+export function buildThreads(comments: Comment[]): CommentThread[] {
+  const threads = comments.map((comment): CommentThread => ({ ...comment, replies: [] }));
+  const byId = new Map(threads.filter((thread) => thread.id).map((thread) => [thread.id!, thread]));
+  const roots: CommentThread[] = [];
+  for (const thread of threads) {
+    const parent = thread.parentId ? byId.get(thread.parentId) : undefined;
+    if (parent && parent !== thread) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+  return roots;
+}
+
+export function platformLabel(platform: string | undefined): string | undefined {
+  return platform && isPlatformId(platform) ? PLATFORM_LABELS[platform] : platform;
+}
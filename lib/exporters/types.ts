@@ -0,0 +1,22 @@
+import type { Comment, CsvOptions } from "@/lib/csv-export";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx" | "markdown" | "html";
+
+export interface ExportInput {
+  comments: Comment[];
+  // Thumbnail data URLs by image name, for formats that embed images
+  thumbnails?: Map<string, string>;
+  // CSV dialect and column layout; XLSX follows the same column choice
+  csvOptions?: Partial<CsvOptions>;
+  exportedAt: Date;
+}
+
+export interface Exporter {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Set when the exporter embeds thumbnails, so callers only build them then
+  usesThumbnails?: boolean;
+  build(input: ExportInput): string | Uint8Array;
+}
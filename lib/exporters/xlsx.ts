@@ -0,0 +1,136 @@
+import { resolveColumns, type ColumnChoice, type Comment, type ExportColumn } from "@/lib/csv-export";
+import { createZip } from "./zip";
+import type { Exporter } from "./types";
+
+// Characters XML 1.0 can't represent at all, even escaped
+const INVALID_XML = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+// Excel's limit for the text of one cell
+const MAX_CELL_LENGTH = 32767;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A1-style column letters for a zero-based index
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Days since 1899-12-30, the epoch Excel counts date cells from (in UTC)
+function excelDate(iso: string): number | null {
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? null : time / 86400000 + 25569;
+}
+
+// Style indexes into cellXfs below
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+function textCell(ref: string, text: string, style = 0): string {
+  const value = escapeXml(text.substring(0, MAX_CELL_LENGTH));
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ""}><is><t xml:space="preserve">${value}</t></is></c>`;
+}
+
+function cell(ref: string, column: ExportColumn, comment: Comment): string {
+  const value = column.value(comment);
+  if (value === undefined || value === "") return "";
+  if (column.type === "number" && typeof value === "number") {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (column.type === "date") {
+    const serial = excelDate(String(value));
+    if (serial !== null) return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  return textCell(ref, String(value));
+}
+
+function worksheet(comments: Comment[], choices?: ColumnChoice[]): string {
+  const columns = resolveColumns(choices);
+  const lastColumn = columnName(Math.max(columns.length - 1, 0));
+  const header = `<row r="1">${columns.map((column, index) =>
+    textCell(`${columnName(index)}1`, column.label, STYLE_HEADER)
+  ).join("")}</row>`;
+  const rows = comments.map((comment, rowIndex) => {
+    const row = rowIndex + 2;
+    const cells = columns.map((column, index) => cell(`${columnName(index)}${row}`, column, comment));
+    return `<row r="${row}">${cells.join("")}</row>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${header}${rows.join("")}</sheetData>
+<autoFilter ref="A1:${lastColumn}${comments.length + 1}"/>
+</worksheet>`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Comments" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Default, bold header, and ISO-like date-time cells
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// A real workbook with number and date cells, so sorting and formulas work
+// without re-typing columns
+export const xlsxExporter: Exporter = {
+  id: "xlsx",
+  label: "Excel (XLSX)",
+  extension: "xlsx",
+  mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  build({ comments, csvOptions, exportedAt }) {
+    return createZip(
+      [
+        { name: "[Content_Types].xml", data: CONTENT_TYPES },
+        { name: "_rels/.rels", data: ROOT_RELS },
+        { name: "xl/workbook.xml", data: WORKBOOK },
+        { name: "xl/_rels/workbook.xml.rels", data: WORKBOOK_RELS },
+        { name: "xl/styles.xml", data: STYLES },
+        { name: "xl/worksheets/sheet1.xml", data: worksheet(comments, csvOptions?.columns) },
+      ],
+      exportedAt
+    );
+  },
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { generateCSV } from "@/lib/csv-export";
+import { importExport } from "@/lib/importer";
+
+const comment = { imageName: "shot.png", id: "c_1", username: "alice", text: "hello", depth: 0 };
+
+describe("importExport", () => {
+  it("reads a one-comment NDJSON export", () => {
+    for (const fileName of ["comments.ndjson", "comments.json"]) {
+      const [result] = importExport(JSON.stringify(comment), fileName);
+      expect(result.imageName).toBe("shot.png");
+      expect(result.comments.map(({ id, text }) => ({ id, text }))).toEqual([{ id: "c_1", text: "hello" }]);
+    }
+  });
+
+  it("still rejects JSON that isn't an export", () => {
+    expect(() => importExport(JSON.stringify({ images: "no" }), "x.json")).toThrow(/images/);
+  });
+
+  it("reads CSV columns renamed with the saved labels", () => {
+    const columns = [
+      { key: "imageName", label: "Screenshot" },
+      { key: "text", label: "Body" },
+      { key: "username", label: "Author" },
+    ];
+    const csv = generateCSV([comment], { columns });
+    const [result] = importExport(csv, "comments.csv", columns);
+    expect(result.imageName).toBe("shot.png");
+    expect(result.comments[0]).toMatchObject({ username: "alice", text: "hello" });
+    expect(() => importExport(csv, "comments.csv")).toThrow(/Comment Text/);
+  });
+});
@@ -0,0 +1,271 @@
+import { CSV_DELIMITERS, EXPORT_COLUMNS, type ColumnChoice, type Comment } from "@/lib/csv-export";
+import type { ParsedCount } from "@/lib/counts";
+import { isIntent, isSentiment } from "@/lib/labels";
+import { isPlatformId } from "@/lib/platforms";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+// Client-safe reader for our own CSV, JSON and NDJSON exports, turning them
+// back into results so an earlier session can be continued and re-exported
+
+// The apostrophe generateCSV puts in front of text that would otherwise run
+// as a formula
+const NEUTRALIZED_FORMULA = /^'[=+\-@\t\r]/;
+
+// Split CSV text into rows of fields. Quoted fields may contain the
+// delimiter, doubled quotes and line breaks; records end at LF, CRLF or CR.
+// Blank lines are skipped.
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.length > 1 || fields[0] !== "");
+}
+
+// The delimiter used most often in the header line
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r\n|\r|\n/, 1)[0];
+  const count = (delimiter: string) => header.split(delimiter).length - 1;
+  return CSV_DELIMITERS.reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best));
+}
+
+// Match a header to a column by a label from the saved column choices, its
+// default label or its key. Columns renamed to anything else aren't
+// recognized and are skipped.
+function columnForHeader(header: string, choices: ColumnChoice[]) {
+  const normalized = header.trim().toLowerCase();
+  const chosen = choices.find((choice) => choice.label?.trim().toLowerCase() === normalized);
+  return EXPORT_COLUMNS.find(
+    (column) =>
+      column.key === chosen?.key ||
+      column.header.toLowerCase() === normalized ||
+      column.key.toLowerCase() === normalized
+  );
+}
+
+function parseCsvExport(text: string, fileName: string, choices: ColumnChoice[]): Comment[] {
+  const [header, ...rows] = parseCsvRows(text, detectDelimiter(text));
+  if (!header) {
+    throw new Error(`${fileName} is empty`);
+  }
+  const columns = header.map((label) => columnForHeader(label, choices));
+  if (!columns.some((column) => column?.key === "text")) {
+    throw new Error(`${fileName} has no "Comment Text" column`);
+  }
+
+  return rows.map((fields): Comment => {
+    // Non-empty cells by column key; cells under unrecognized headers are dropped
+    const cells = new Map<string, string>();
+    columns.forEach((column, index) => {
+      if (column && fields[index]) cells.set(column.key, fields[index]);
+    });
+    const text = (key: string) => {
+      const value = cells.get(key);
+      return value && NEUTRALIZED_FORMULA.test(value) ? value.substring(1) : value;
+    };
+    const number = (key: string) => {
+      const value = Number(cells.get(key));
+      return Number.isFinite(value) ? value : undefined;
+    };
+    // Columns exported as "a; b; c"
+    const list = (key: string) => cells.get(key)?.split("; ").filter(Boolean);
+    const [x, y, width, height] = ["boxX", "boxY", "boxWidth", "boxHeight"].map(number);
+
+    return {
+      imageName: text("imageName") ?? fileName,
+      platform: text("platform"),
+      id: text("id"),
+      parentId: text("parentId"),
+      depth: number("depth"),
+      replyCount: number("replyCount"),
+      username: text("username"),
+      text: text("text") ?? "",
+      timestamp: text("timestamp"),
+      timestampIso: text("timestampIso"),
+      timestampRange: text("timestampRange"),
+      likes: text("likes"),
+      likesCount: number("likesCount"),
+      likesPrecision: text("likesPrecision"),
+      reactions: text("reactions"),
+      badges: list("badges"),
+      confidence: number("confidence"),
+      sentiment: text("sentiment"),
+      intent: text("intent"),
+      topics: list("topics"),
+      language: text("language"),
+      translation: text("translation"),
+      translationLanguage: text("translationLanguage"),
+      box:
+        x !== undefined && y !== undefined && width !== undefined && height !== undefined
+          ? { x, y, width, height }
+          : undefined,
+      seenIn: list("seenIn"),
+      edits: list("edits"),
+    };
+  });
+}
+
+type JsonThread = Omit<Comment, "imageName" | "platform"> & { replies?: JsonThread[] };
+
+// Undo the nesting of the JSON export, parents before their replies
+function flattenThreads(threads: JsonThread[], imageName: string, platform?: string): Comment[] {
+  return threads.flatMap(({ replies, ...comment }) => [
+    { ...comment, imageName, platform },
+    ...flattenThreads(replies ?? [], imageName, platform),
+  ]);
+}
+
+// One comment per line
+function parseNdjsonExport(text: string, fileName: string): Comment[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as Comment;
+      } catch {
+        throw new Error(`${fileName} line ${index + 1} is not valid JSON`);
+      }
+    });
+}
+
+function parseJsonExport(text: string, fileName: string): Comment[] {
+  if (/\.(ndjson|jsonl)$/i.test(fileName)) {
+    return parseNdjsonExport(text, fileName);
+  }
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    // Not one document, so it should be NDJSON
+    return parseNdjsonExport(text, fileName);
+  }
+  const images = (document as { images?: unknown } | null)?.images;
+  // An NDJSON export of a single comment is one valid JSON object
+  if (images === undefined && typeof document === "object" && document !== null && !Array.isArray(document)) {
+    return parseNdjsonExport(text, fileName);
+  }
+  if (!Array.isArray(images)) {
+    throw new Error(`${fileName} is not a comment export: it has no "images" list`);
+  }
+  return images.flatMap((image: { imageName?: unknown; platform?: string; comments?: unknown }) =>
+    flattenThreads(
+      Array.isArray(image.comments) ? (image.comments as JsonThread[]) : [],
+      String(image.imageName ?? fileName),
+      image.platform
+    )
+  );
+}
+
+// "like=12; love=3" back into counts; abbreviation is lost on export
+function parseReactionCounts(value: string | undefined): Record<string, ParsedCount> | undefined {
+  if (!value) return undefined;
+  const counts: Record<string, ParsedCount> = {};
+  for (const part of value.split("; ")) {
+    const [reaction, count] = part.split("=");
+    if (reaction && Number.isFinite(Number(count))) {
+      counts[reaction] = { value: Number(count), precision: "exact" };
+    }
+  }
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
+
+// The inverse of the flattening done for export
+function toExtractedComment(comment: Comment, fallbackId: string): ExtractedComment & { seenIn?: string[] } {
+  const [rangeStart, rangeEnd] = comment.timestampRange?.split("/") ?? [];
+  return {
+    id: comment.id || fallbackId,
+    parentId: comment.parentId || undefined,
+    depth: comment.depth ?? 0,
+    replyCount: comment.replyCount,
+    username: comment.username,
+    text: String(comment.text ?? ""),
+    timestamp: comment.timestamp,
+    timestampNormalized: comment.timestampIso ? { iso: comment.timestampIso, rangeStart, rangeEnd } : undefined,
+    likes: comment.likes,
+    likesCount:
+      comment.likesCount !== undefined
+        ? { value: comment.likesCount, precision: comment.likesPrecision === "abbreviated" ? "abbreviated" : "exact" }
+        : undefined,
+    reactionCounts: parseReactionCounts(comment.reactions),
+    badges: comment.badges,
+    box: comment.box,
+    confidenceScore: comment.confidence,
+    labels:
+      isSentiment(comment.sentiment) && isIntent(comment.intent)
+        ? { sentiment: comment.sentiment, intent: comment.intent, topics: comment.topics ?? [] }
+        : undefined,
+    language: comment.language,
+    translation:
+      comment.translation && comment.translationLanguage
+        ? { language: comment.translationLanguage, text: comment.translation }
+        : undefined,
+    seenIn: comment.seenIn,
+    edits: comment.edits,
+  };
+}
+
+// Parse a CSV, JSON or NDJSON file written by one of our exporters into one
+// result per image, in the order images appear in the file. Comments
+// without an id (its column left out of a CSV) get one from their position.
+// CSV headers are matched against `columns`, the saved CSV column choices, so
+// relabeled exports read back while those labels are still set. Throws when
+// the file isn't an export we can read.
+export function importExport(text: string, fileName: string, columns: ColumnChoice[] = []): ProcessedComment[] {
+  const content = text.replace(/^\uFEFF/, "");
+  const comments = /^\s*[{[]/.test(content)
+    ? parseJsonExport(content, fileName)
+    : parseCsvExport(content, fileName, columns);
+
+  const results = new Map<string, ProcessedComment>();
+  comments.forEach((comment, index) => {
+    const imageName = comment.imageName || fileName;
+    let result = results.get(imageName);
+    if (!result) {
+      result = {
+        imageName,
+        fileIndex: results.size,
+        status: "succeeded",
+        platform: isPlatformId(comment.platform) ? comment.platform : undefined,
+        comments: [],
+        rawResponse: "",
+        imported: true,
+      };
+      results.set(imageName, result);
+    }
+    result.comments.push(toExtractedComment(comment, `imported_${fileName}_${index + 1}`));
+  });
+  return Array.from(results.values());
+}
@@ -0,0 +1,43 @@
+import { FINISHED_JOB_STATUSES, type Job, type JobStatus } from "./types";
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return FINISHED_JOB_STATUSES.includes(status);
+}
+
+// Poll GET /api/jobs/:id until the job reaches a terminal status, passing
+// every snapshot to `onUpdate`. Resolves with undefined if the job is unknown
+// (e.g. the in-memory store was reset) or the signal is aborted.
+export async function pollJob(
+  jobId: string,
+  onUpdate: (job: Job) => void,
+  signal: AbortSignal,
+  intervalMs = 2000
+): Promise<Job | undefined> {
+  while (!signal.aborted) {
+    const response = await fetch(`/api/jobs/${jobId}`, { signal, cache: "no-store" });
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to fetch job ${jobId}`);
+    }
+
+    const job: Job = await response.json();
+    onUpdate(job);
+    if (isTerminalStatus(job.status)) {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+  return undefined;
+}
+
+export async function cancelJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+  if (!response.ok && response.status !== 404) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to cancel job ${jobId}`);
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { FINISHED_JOB_STATUSES, type Job, type JobStore } from "./types";
+
+const JOB_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+// A running job saves on every progress event, and each save rewrites the
+// whole job, results included. Snapshots arriving while a write is in flight
+// are coalesced and the newest is written at most this often.
+const WRITE_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// One JSON file per job under `directory`, so jobs survive a server restart.
+// Writes go to a temp file first and are renamed into place. A save resolves
+// once its snapshot, or a newer one for the same job, is on disk.
+export function createFileJobStore(directory: string): JobStore {
+  const writers = new Map<string, { latest: Job; done: Promise<void> }>();
+
+  const jobPath = (id: string) => {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  const write = async (job: Job) => {
+    await fs.mkdir(directory, { recursive: true });
+    const target = jobPath(job.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job));
+    await fs.rename(temp, target);
+  };
+
+  const read = async (id: string): Promise<Job | undefined> => {
+    try {
+      return JSON.parse(await fs.readFile(jobPath(id), "utf8")) as Job;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  };
+
+  return {
+    save(job) {
+      const snapshot: Job = JSON.parse(JSON.stringify(job));
+      const pending = writers.get(job.id);
+      if (pending) {
+        pending.latest = snapshot;
+        return pending.done;
+      }
+
+      const writer = { latest: snapshot, done: Promise.resolve() };
+      writer.done = (async () => {
+        try {
+          for (let written = writer.latest; ; written = writer.latest) {
+            await write(written);
+            if (writer.latest === written) break;
+            await sleep(WRITE_INTERVAL_MS);
+          }
+        } finally {
+          writers.delete(job.id);
+        }
+      })();
+      writers.set(job.id, writer);
+      return writer.done;
+    },
+    async get(id) {
+      if (!JOB_ID_PATTERN.test(id)) {
+        return undefined;
+      }
+      await writers.get(id)?.done.catch(() => {});
+      return read(id);
+    },
+    async prune(cutoff) {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+        throw error;
+      }
+      for (const name of names) {
+        const id = name.replace(/\.json$/, "");
+        if (id === name || !JOB_ID_PATTERN.test(id) || writers.has(id)) continue;
+        const job = await read(id).catch(() => undefined);
+        if (job && FINISHED_JOB_STATUSES.includes(job.status) && Date.parse(job.updatedAt) < cutoff.getTime()) {
+          await fs.rm(jobPath(id), { force: true });
+        }
+      }
+    },
+  };
+}
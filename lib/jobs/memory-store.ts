@@ -0,0 +1,29 @@
+import { FINISHED_JOB_STATUSES, type Job, type JobStore } from "./types";
+
+// Jobs live as long as the server process, or until pruned. Stored as JSON
+// strings so callers can't mutate a saved job by holding on to the object
+// they passed in.
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, { json: string; finished: boolean; updatedAt: number }>();
+
+  return {
+    async save(job) {
+      jobs.set(job.id, {
+        json: JSON.stringify(job),
+        finished: FINISHED_JOB_STATUSES.includes(job.status),
+        updatedAt: Date.parse(job.updatedAt),
+      });
+    },
+    async get(id) {
+      const entry = jobs.get(id);
+      return entry ? (JSON.parse(entry.json) as Job) : undefined;
+    },
+    async prune(cutoff) {
+      jobs.forEach((entry, id) => {
+        if (entry.finished && entry.updatedAt < cutoff.getTime()) {
+          jobs.delete(id);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "crypto";
+import { CancelledError, processFiles, type ProcessRequest } from "@/lib/pipeline";
+import { compareSourceOrder } from "@/lib/results";
+import type { ProgressEvent } from "@/lib/types";
+import { getJobStore } from "./store";
+import type { Job } from "./types";
+
+interface ActiveJob {
+  job: Job;
+  controller: AbortController;
+  save: () => void;
+}
+
+// Finished jobs are deleted this long after their last update, default a day
+const JOB_TTL_MS = (Number(process.env.JOB_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// Jobs running in this process. Anything "running" in the store but missing
+// here was left behind by an earlier server process.
+const activeJobs: Map<string, ActiveJob> = ((
+  globalThis as typeof globalThis & { __commentExtractorActiveJobs?: Map<string, ActiveJob> }
+).__commentExtractorActiveJobs ??= new Map());
+
+// Fold one pipeline event into the job's per-file and per-item state
+export function applyProgressEvent(job: Job, event: ProgressEvent): void {
+  switch (event.type) {
+    case "file-started":
+      job.files[event.fileIndex].status = "running";
+      break;
+    case "file-pages":
+      job.files[event.fileIndex].pageCount = event.pageCount;
+      break;
+    case "item-started":
+      job.items.push({
+        fileIndex: event.fileIndex,
+        pageNumber: event.pageNumber,
+        imageName: event.imageName,
+        status: "running",
+      });
+      break;
+    case "item-succeeded":
+    case "item-failed": {
+      const status = event.type === "item-succeeded" ? "succeeded" : "failed";
+      const item = job.items.find(
+        (candidate) =>
+          candidate.fileIndex === event.fileIndex && candidate.pageNumber === event.pageNumber
+      );
+      if (item) {
+        item.status = status;
+      } else {
+        // File-level failures (e.g. an unreadable PDF) never emit item-started
+        job.items.push({
+          fileIndex: event.fileIndex,
+          pageNumber: event.pageNumber,
+          imageName: event.result.imageName,
+          status,
+        });
+      }
+      job.results.push(event.result);
+      job.results.sort(compareSourceOrder);
+      break;
+    }
+    case "file-finished":
+      job.files[event.fileIndex].status = "finished";
+      break;
+  }
+}
+
+export async function startJob({ files, ...options }: ProcessRequest): Promise<Job> {
+  const store = getJobStore();
+  // Expired jobs are cleared whenever a new one starts
+  await store
+    .prune(new Date(Date.now() - JOB_TTL_MS))
+    .catch((error) => console.error("Failed to prune expired jobs:", error));
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    files: files.map((file) => ({ fileName: file.name, status: "pending" })),
+    items: [],
+    results: [],
+  };
+  await store.save(job);
+
+  const controller = new AbortController();
+  const save = () => {
+    job.updatedAt = new Date().toISOString();
+    store.save(job).catch((error) => console.error(`Failed to save job ${job.id}:`, error));
+  };
+  activeJobs.set(job.id, { job, controller, save });
+
+  // Deliberately not awaited: the job keeps running after the response is sent
+  (async () => {
+    job.status = "running";
+    save();
+    try {
+      await processFiles(
+        files,
+        options,
+        (event) => {
+          applyProgressEvent(job, event);
+          save();
+        },
+        controller.signal
+      );
+      // Items already in flight when the job was cancelled still finish
+      job.status = controller.signal.aborted ? "cancelled" : "completed";
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        job.status = "cancelled";
+      } else {
+        console.error(`Job ${job.id} failed:`, error);
+        job.status = "failed";
+        job.error = (error as Error).message || "Failed to process images";
+      }
+    } finally {
+      activeJobs.delete(job.id);
+      save();
+    }
+  })();
+
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | undefined> {
+  const job = await getJobStore().get(id);
+  if (job && (job.status === "queued" || job.status === "running") && !activeJobs.has(id)) {
+    job.status = "interrupted";
+    await getJobStore().save(job);
+  }
+  return job;
+}
+
+// Cancelling a job that already finished leaves it as it was
+export async function cancelJob(id: string): Promise<Job | undefined> {
+  const active = activeJobs.get(id);
+  if (!active) {
+    return getJob(id);
+  }
+
+  active.controller.abort();
+  active.job.status = "cancelled";
+  active.save();
+  return active.job;
+}
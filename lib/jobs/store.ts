@@ -0,0 +1,19 @@
+import path from "path";
+import { createFileJobStore } from "./file-store";
+import { createMemoryJobStore } from "./memory-store";
+import type { JobStore } from "./types";
+
+// JOB_STORE=file keeps jobs on disk (under JOB_STORE_DIR, default ./.jobs) so
+// they survive a dev-server restart; anything else uses the in-memory store.
+function createJobStore(): JobStore {
+  if (process.env.JOB_STORE === "file") {
+    return createFileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), ".jobs"));
+  }
+  return createMemoryJobStore();
+}
+
+// Cached on globalThis so dev-mode module reloads don't drop in-memory jobs
+export function getJobStore(): JobStore {
+  return ((globalThis as typeof globalThis & { __commentExtractorJobStore?: JobStore }).__commentExtractorJobStore ??=
+    createJobStore());
+}
@@ -0,0 +1,42 @@
+import type { ProcessedComment } from "@/lib/types";
+
+// "interrupted" marks a job that was running when the server restarted: its
+// partial results are kept but nothing is resuming it
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled" | "interrupted";
+
+export type JobItemStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface JobFile {
+  fileName: string;
+  status: "pending" | "running" | "finished";
+  // Known once a PDF has been converted; plain images are one item
+  pageCount?: number;
+}
+
+export interface JobItem {
+  fileIndex: number;
+  pageNumber?: number;
+  imageName: string;
+  status: JobItemStatus;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  files: JobFile[];
+  items: JobItem[];
+  results: ProcessedComment[];
+  error?: string;
+}
+
+// Statuses nothing will change any more
+export const FINISHED_JOB_STATUSES: JobStatus[] = ["completed", "failed", "cancelled", "interrupted"];
+
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | undefined>;
+  // Delete finished jobs last updated before `cutoff`
+  prune(cutoff: Date): Promise<void>;
+}
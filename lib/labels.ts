@@ -0,0 +1,40 @@
+// Client-safe label sets for the optional enrichment pass
+
+export type Sentiment = "positive" | "neutral" | "negative";
+
+// "other" covers comments that are none of the four intents we track
+export type Intent = "question" | "complaint" | "praise" | "spam" | "other";
+
+export const SENTIMENTS: Sentiment[] = ["positive", "neutral", "negative"];
+
+export const INTENTS: Intent[] = ["question", "complaint", "praise", "spam", "other"];
+
+export const DEFAULT_TOPICS = ["product", "pricing", "customer service", "shipping", "feature request"];
+
+export interface CommentLabels {
+  sentiment: Sentiment;
+  intent: Intent;
+  // Subset of the run's topic taxonomy; empty when none apply
+  topics: string[];
+}
+
+export function isSentiment(value: unknown): value is Sentiment {
+  return typeof value === "string" && (SENTIMENTS as string[]).includes(value);
+}
+
+export function isIntent(value: unknown): value is Intent {
+  return typeof value === "string" && (INTENTS as string[]).includes(value);
+}
+
+// Split a comma- or newline-separated topic list, dropping blanks and
+// case-insensitive repeats
+export function parseTopics(value: string): string[] {
+  const topics = new Map<string, string>();
+  for (const topic of value.split(/[,\n]/)) {
+    const trimmed = topic.trim();
+    if (trimmed && !topics.has(trimmed.toLowerCase())) {
+      topics.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return Array.from(topics.values());
+}
@@ -0,0 +1,35 @@
+// Client-safe list of translation targets, keyed by ISO 639-1 code
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  ar: "Arabic",
+  de: "German",
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  hi: "Hindi",
+  id: "Indonesian",
+  it: "Italian",
+  ja: "Japanese",
+  ko: "Korean",
+  nl: "Dutch",
+  pl: "Polish",
+  pt: "Portuguese",
+  ru: "Russian",
+  sv: "Swedish",
+  th: "Thai",
+  tr: "Turkish",
+  uk: "Ukrainian",
+  vi: "Vietnamese",
+  zh: "Chinese",
+};
+
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === "string" && Object.hasOwn(LANGUAGE_NAMES, value);
+}
+
+// Reduce a reported language to its ISO 639-1 code ("en-US" -> "en").
+// Returns null for anything that isn't shaped like one.
+export function normalizeLanguageCode(value: string): string | null {
+  const match = value.trim().match(/^([a-z]{2})(?:[-_][a-z0-9]+)*$/i);
+  return match ? match[1].toLowerCase() : null;
+}
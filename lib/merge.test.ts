@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { mergeOverlappingResults } from "@/lib/merge";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+const capture = (imageName: string, comments: ExtractedComment[]): ProcessedComment => ({
+  imageName,
+  fileIndex: 0,
+  status: "succeeded",
+  comments,
+  rawResponse: "",
+});
+
+const comment = (id: string, text: string, extra: Partial<ExtractedComment> = {}): ExtractedComment => ({
+  id,
+  depth: 0,
+  username: "alice",
+  text,
+  ...extra,
+});
+
+describe("mergeOverlappingResults", () => {
+  it("folds a comment repeated in the next capture, keeping the fuller text", () => {
+    const merged = mergeOverlappingResults([
+      capture("1.png", [comment("a1", "This is the best explanation I have seen", { likes: "12" })]),
+      capture("2.png", [comment("a2", "This is the best explanation I have seen of this topic")]),
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      id: "a1",
+      text: "This is the best explanation I have seen of this topic",
+      likes: "12",
+      imageName: "1.png",
+      seenIn: ["1.png", "2.png"],
+    });
+  });
+
+  it("stitches a comment cut in two at the capture edge", () => {
+    const merged = mergeOverlappingResults([
+      capture("1.png", [comment("a1", "I really think this video explains the whole thing")]),
+      capture("2.png", [comment("a2", "explains the whole thing better than any lecture")]),
+    ]);
+    expect(merged.map((entry) => entry.text)).toEqual([
+      "I really think this video explains the whole thing better than any lecture",
+    ]);
+  });
+
+  it("moves replies from a dropped copy to the kept one", () => {
+    const parent = "Does anyone know which camera this was shot on?";
+    const merged = mergeOverlappingResults([
+      capture("1.png", [comment("p1", parent)]),
+      capture("2.png", [
+        comment("p2", parent),
+        comment("r2", "Looks like a Sony to me", { username: "bob", depth: 1, parentId: "p2" }),
+      ]),
+    ]);
+    expect(merged.map(({ id, parentId }) => [id, parentId])).toEqual([
+      ["p1", undefined],
+      ["r2", "p1"],
+    ]);
+  });
+
+  it("keeps short anonymous comments and different authors apart", () => {
+    const merged = mergeOverlappingResults([
+      capture("1.png", [
+        comment("a1", "lol", { username: undefined }),
+        comment("b1", "Completely agree with everything said here"),
+      ]),
+      capture("2.png", [
+        comment("a2", "lol", { username: undefined }),
+        comment("b2", "Completely agree with everything said here", { username: "bob" }),
+      ]),
+    ]);
+    expect(merged.map((entry) => entry.id)).toEqual(["a1", "b1", "a2", "b2"]);
+  });
+
+  it("only compares each capture with the previous one, skipping failures", () => {
+    const text = "Came back to this video after five years";
+    const failed: ProcessedComment = { ...capture("2.png", []), status: "failed", error: "timeout" };
+    const skippedFailure = mergeOverlappingResults([
+      capture("1.png", [comment("a1", text)]),
+      failed,
+      capture("3.png", [comment("a3", text)]),
+    ]);
+    expect(skippedFailure.map((entry) => entry.seenIn)).toEqual([["1.png", "3.png"]]);
+
+    const twoBack = mergeOverlappingResults([
+      capture("1.png", [comment("a1", text)]),
+      capture("2.png", [comment("b2", "Something else entirely, nothing alike")]),
+      capture("3.png", [comment("a3", text)]),
+    ]);
+    expect(twoBack.map((entry) => entry.id)).toEqual(["a1", "b2", "a3"]);
+  });
+});
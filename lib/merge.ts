@@ -0,0 +1,183 @@
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+import {
+  normalizeText,
+  suffixPrefixOverlap,
+  textSimilarity,
+  usernamesCompatible,
+} from "@/lib/text-similarity";
+
+export interface MergedComment extends ExtractedComment {
+  // Image the comment was first seen in
+  imageName: string;
+  // Every image the comment appeared in, in capture order
+  seenIn: string[];
+}
+
+export interface MergeOptions {
+  // Minimum similarity for two comments to count as the same one
+  similarityThreshold: number;
+  // Minimum overlapping characters to join two halves of a cut comment
+  minStitchOverlap: number;
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+  similarityThreshold: 0.85,
+  minStitchOverlap: 12,
+};
+
+type Match =
+  | { kind: "duplicate"; keepIncoming: boolean }
+  | { kind: "stitch"; overlap: number; incomingFirst: boolean };
+
+// Decide whether `incoming` (from a later image) repeats `existing`. A
+// comment cut at the bottom edge of one capture shows up as a prefix of the
+// same comment in the next capture, or the two halves overlap by a few words.
+function matchComments(existing: ExtractedComment, incoming: ExtractedComment, options: MergeOptions): Match | null {
+  if (!usernamesCompatible(existing.username, incoming.username)) {
+    return null;
+  }
+
+  const a = normalizeText(existing.text);
+  const b = normalizeText(incoming.text);
+  if (!a || !b) return null;
+
+  // Short anonymous comments ("lol", "same") are too common to match safely
+  if (!existing.username && !incoming.username && Math.min(a.length, b.length) < options.minStitchOverlap) {
+    return null;
+  }
+
+  if (textSimilarity(existing.text, incoming.text) >= options.similarityThreshold) {
+    return { kind: "duplicate", keepIncoming: b.length > a.length };
+  }
+
+  // One capture holds a truncated copy of the other
+  const shorter = a.length <= b.length ? a : b;
+  if (shorter.length >= options.minStitchOverlap && (a.includes(b) || b.includes(a))) {
+    return { kind: "duplicate", keepIncoming: b.length > a.length };
+  }
+
+  const forward = suffixPrefixOverlap(existing.text, incoming.text);
+  if (forward >= options.minStitchOverlap) {
+    return { kind: "stitch", overlap: forward, incomingFirst: false };
+  }
+  const backward = suffixPrefixOverlap(incoming.text, existing.text);
+  if (backward >= options.minStitchOverlap) {
+    return { kind: "stitch", overlap: backward, incomingFirst: true };
+  }
+
+  return null;
+}
+
+// Join two halves of a comment, dropping the overlapping words from the
+// second half. Works on the raw text so the original wording is kept.
+function stitchText(first: string, second: string, normalizedOverlap: number): string {
+  const overlapWords = normalizeText(second).substring(0, normalizedOverlap).split(" ").length;
+  const secondWords = second.trim().split(/\s+/);
+  const rest = secondWords.slice(overlapWords).join(" ");
+  return rest ? `${first.trimEnd()} ${rest}` : first;
+}
+
+// Collapse overlapping scroll captures into one comment list. Each image is
+// compared with the image before it (failed images are skipped); repeated
+// comments are folded into the first copy, keeping the most complete text
+// and recording every image they were seen in. Reply links pointing at a
+// dropped copy are moved to the kept one.
+export function mergeOverlappingResults(
+  results: ProcessedComment[],
+  options: MergeOptions = DEFAULT_MERGE_OPTIONS
+): MergedComment[] {
+  const merged: MergedComment[] = [];
+  // Maps ids of dropped duplicates to the id that was kept
+  const aliases = new Map<string, string>();
+  let previousImage: string | null = null;
+
+  for (const result of results) {
+    if (result.status === "failed" || result.comments.length === 0) {
+      continue;
+    }
+
+    // Only comments visible in the previous capture can overlap this one
+    const candidates: MergedComment[] = previousImage
+      ? merged.filter((comment) => comment.seenIn.includes(previousImage as string))
+      : [];
+    const matched = new Set<MergedComment>();
+
+    for (const comment of result.comments) {
+      const parentId = comment.parentId ? aliases.get(comment.parentId) ?? comment.parentId : undefined;
+      let folded = false;
+
+      for (const candidate of candidates) {
+        if (matched.has(candidate)) continue;
+        const match = matchComments(candidate, comment, options);
+        if (!match) continue;
+
+        if (match.kind === "duplicate") {
+          if (match.keepIncoming) {
+            candidate.text = comment.text;
+          }
+        } else {
+          candidate.text = match.incomingFirst
+            ? stitchText(comment.text, candidate.text, match.overlap)
+            : stitchText(candidate.text, comment.text, match.overlap);
+        }
+        candidate.username ??= comment.username;
+        candidate.timestamp ??= comment.timestamp;
+        candidate.timestampNormalized ??= comment.timestampNormalized;
+        candidate.likes ??= comment.likes;
+        candidate.likesCount ??= comment.likesCount;
+        candidate.reactions ??= comment.reactions;
+        candidate.reactionCounts ??= comment.reactionCounts;
+        candidate.replyCount ??= comment.replyCount;
+        candidate.seenIn.push(result.imageName);
+        aliases.set(comment.id, candidate.id);
+        matched.add(candidate);
+        folded = true;
+        break;
+      }
+
+      if (!folded) {
+        merged.push({
+          ...comment,
+          parentId,
+          imageName: result.imageName,
+          seenIn: [result.imageName],
+        });
+      }
+    }
+
+    previousImage = result.imageName;
+  }
+
+  return merged;
+}
+
+// Drop comments from `incoming` that repeat one already in `known`, such as a
+// screenshot processed again after its earlier export was imported. Every
+// known comment is a candidate, not just the previous image's. Replies to a
+// dropped comment are pointed at the copy that was kept.
+export function dropKnownComments(
+  known: ProcessedComment[],
+  incoming: ProcessedComment[],
+  options: MergeOptions = DEFAULT_MERGE_OPTIONS
+): ProcessedComment[] {
+  const knownComments = known.flatMap((result) => result.comments);
+  if (knownComments.length === 0) return incoming;
+  const knownIds = new Set(knownComments.map((comment) => comment.id));
+  const aliases = new Map<string, string>();
+
+  return incoming.map((result) => {
+    const comments: ExtractedComment[] = [];
+    for (const comment of result.comments) {
+      const duplicate = knownIds.has(comment.id)
+        ? comment
+        : knownComments.find((candidate) => matchComments(candidate, comment, options)?.kind === "duplicate");
+      if (duplicate) {
+        aliases.set(comment.id, duplicate.id);
+        continue;
+      }
+      const parentId = comment.parentId ? aliases.get(comment.parentId) ?? comment.parentId : undefined;
+      comments.push(parentId === comment.parentId ? comment : { ...comment, parentId });
+    }
+    return comments.length === result.comments.length ? result : { ...result, comments };
+  });
+}
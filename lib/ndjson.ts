@@ -0,0 +1,34 @@
+// Read a newline-delimited JSON response body, calling `onEvent` for each
+// complete line as soon as it arrives.
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newlineIndex = buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      const line = buffer.substring(0, newlineIndex).trim();
+      buffer = buffer.substring(newlineIndex + 1);
+      if (line) {
+        onEvent(JSON.parse(line) as T);
+      }
+      newlineIndex = buffer.indexOf("\n");
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as T);
+  }
+}
@@ -0,0 +1,63 @@
+// Native and heavyweight image packages are optional dependencies, so they
+// are loaded lazily and callers handle them being absent. Their type packages
+// aren't installed either, so the parts used here are declared below.
+const loadOptionalModule = <T>(moduleName: string): T | null => {
+  try {
+    // Use Function constructor to avoid webpack static analysis
+    const requireFunc = new Function("moduleName", "return require(moduleName)");
+    return requireFunc(moduleName) as T;
+  } catch {
+    return null;
+  }
+};
+
+// node-canvas mirrors the DOM canvas API, which pdf.js also renders into
+export interface NodeCanvas {
+  getContext(contextId: "2d"): CanvasRenderingContext2D;
+  toBuffer(mimeType: "image/png"): Buffer;
+  toBuffer(mimeType: "image/jpeg", options?: { quality?: number }): Buffer;
+}
+
+export interface CanvasModule {
+  createCanvas(width: number, height: number): NodeCanvas;
+  loadImage(source: Buffer): Promise<CanvasImageSource>;
+}
+
+export interface SharpMetadata {
+  // Reported for every format sharp can decode
+  width?: number;
+  height?: number;
+  // EXIF orientation, 1-8
+  orientation?: number;
+  exif?: Buffer;
+  xmp?: Buffer;
+}
+
+export interface SharpPipeline {
+  metadata(): Promise<SharpMetadata>;
+  rotate(): SharpPipeline;
+  resize(width: number, height: number): SharpPipeline;
+  extract(region: { left: number; top: number; width: number; height: number }): SharpPipeline;
+  png(): SharpPipeline;
+  jpeg(options?: { quality?: number }): SharpPipeline;
+  webp(options?: { quality?: number }): SharpPipeline;
+  toBuffer(): Promise<Buffer>;
+}
+
+export type SharpModule = (input: Buffer) => SharpPipeline;
+
+export type HeicConvert = (options: {
+  buffer: Buffer;
+  format: "JPEG" | "PNG";
+  // 0 to 1
+  quality?: number;
+}) => Promise<ArrayBuffer>;
+
+// node-canvas, for rendering PDF pages and cutting tiles
+export const loadCanvasModule = () => loadOptionalModule<CanvasModule>("canvas");
+
+// sharp, for converting, downscaling and re-encoding uploads
+export const loadSharpModule = () => loadOptionalModule<SharpModule>("sharp");
+
+// heic-convert, a WebAssembly HEIC decoder for when sharp can't read HEVC
+export const loadHeicConvert = () => loadOptionalModule<HeicConvert>("heic-convert");
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { estimatePdfCost, parsePageRanges, selectPdfPages, validatePdfOptions } from "@/lib/pdf-options";
+
+describe("parsePageRanges", () => {
+  it("reads single pages, closed and open-ended ranges", () => {
+    expect(parsePageRanges("1-5, 12, 20-")).toEqual({
+      ok: true,
+      value: [
+        { start: 1, end: 5 },
+        { start: 12, end: 12 },
+        { start: 20, end: undefined },
+      ],
+    });
+  });
+
+  it("accepts spaces, en dashes and whitespace as separators", () => {
+    expect(parsePageRanges(" 3 – 4  7 ")).toEqual({
+      ok: true,
+      value: [
+        { start: 3, end: 4 },
+        { start: 7, end: 7 },
+      ],
+    });
+    expect(parsePageRanges("")).toEqual({ ok: true, value: [] });
+  });
+
+  it("explains what is wrong with a bad range", () => {
+    expect(parsePageRanges("1, two")).toEqual({ ok: false, error: '"two" is not a page or page range' });
+    expect(parsePageRanges("-5")).toEqual({ ok: false, error: '"-5" is not a page or page range' });
+    expect(parsePageRanges("0-3")).toEqual({ ok: false, error: "Pages are numbered from 1" });
+    expect(parsePageRanges("9-4")).toEqual({ ok: false, error: '"9-4" ends before it starts' });
+  });
+});
+
+describe("selectPdfPages", () => {
+  it("sorts and dedupes the selected pages, then applies maxPages", () => {
+    expect(selectPdfPages(10, { pages: "8-, 2-3, 3" })).toEqual({ ok: true, value: [2, 3, 8, 9, 10] });
+    expect(selectPdfPages(10, { pages: "8-, 2-3", maxPages: 3 })).toEqual({ ok: true, value: [2, 3, 8] });
+    expect(selectPdfPages(3, {})).toEqual({ ok: true, value: [1, 2, 3] });
+  });
+
+  it("rejects pages past the end of the document", () => {
+    expect(selectPdfPages(10, { pages: "4-12" })).toEqual({ ok: false, error: "Page 12 is past the last page (10)" });
+  });
+});
+
+describe("validatePdfOptions", () => {
+  it("checks option types and bounds", () => {
+    expect(validatePdfOptions({ pages: "1-3", scale: 2, maxPages: 5 })).toEqual({
+      ok: true,
+      value: { pages: "1-3", scale: 2, maxPages: 5 },
+    });
+    expect(validatePdfOptions([])).toEqual({ ok: false, error: "expected an object" });
+    expect(validatePdfOptions({ pages: "x" }).ok).toBe(false);
+    expect(validatePdfOptions({ scale: 5 }).ok).toBe(false);
+    expect(validatePdfOptions({ maxPages: 1.5 }).ok).toBe(false);
+  });
+});
+
+describe("estimatePdfCost", () => {
+  it("counts one call and the image tiles of every page", () => {
+    // A US Letter page at scale 2 is 1224x1584px, two by three 768px tiles
+    expect(estimatePdfCost(4, { width: 612, height: 792 }, 2)).toEqual({ modelCalls: 4, imageTokens: 4 * 6 * 258 });
+  });
+});
@@ -0,0 +1,132 @@
+// Client-safe per-PDF processing options, set in the file card and applied
+// when the pipeline reads the document
+
+export interface PdfOptions {
+  // Page range expression such as "1-5, 12" or "10-"; every page when unset
+  pages?: string;
+  // Render scale for pages without a usable text layer
+  scale?: number;
+  // Process at most this many of the selected pages, in page order
+  maxPages?: number;
+}
+
+// What /api/pdf-info reports about a document without rendering it
+export interface PdfInfo {
+  pageCount: number;
+  // Size of the first page in PDF points, i.e. at scale 1
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_RENDER_SCALE = 2;
+export const RENDER_SCALES = [1, 1.5, 2, 3];
+const MAX_RENDER_SCALE = 4;
+
+interface PageRange {
+  start: number;
+  // Open-ended ranges such as "10-" run to the last page
+  end?: number;
+}
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Parse "1-5, 12, 20-" into ranges. Pages are 1-based; commas and
+// whitespace both separate parts.
+export function parsePageRanges(input: string): Parsed<PageRange[]> {
+  const ranges: PageRange[] = [];
+  const parts = input.replace(/\s*[-–]\s*/g, "-").split(/[,\s]+/).filter(Boolean);
+  for (const part of parts) {
+    const match = /^(\d+)(?:-(\d*))?$/.exec(part);
+    if (!match) {
+      return { ok: false, error: `"${part}" is not a page or page range` };
+    }
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : match[2] === "" ? undefined : Number(match[2]);
+    if (start < 1) {
+      return { ok: false, error: "Pages are numbered from 1" };
+    }
+    if (end !== undefined && end < start) {
+      return { ok: false, error: `"${part}" ends before it starts` };
+    }
+    ranges.push({ start, end });
+  }
+  return { ok: true, value: ranges };
+}
+
+// The page numbers to process for a document of `pageCount` pages, sorted and
+// without duplicates
+export function selectPdfPages(pageCount: number, options: PdfOptions): Parsed<number[]> {
+  let pages = Array.from({ length: pageCount }, (_, index) => index + 1);
+
+  if (options.pages?.trim()) {
+    const ranges = parsePageRanges(options.pages);
+    if (!ranges.ok) return ranges;
+
+    const past = ranges.value.find((range) => range.start > pageCount || (range.end ?? 0) > pageCount);
+    if (past) {
+      return {
+        ok: false,
+        error: `Page ${Math.max(past.start, past.end ?? 0)} is past the last page (${pageCount})`,
+      };
+    }
+    pages = pages.filter((page) =>
+      ranges.value.some((range) => page >= range.start && page <= (range.end ?? pageCount))
+    );
+  }
+
+  return { ok: true, value: options.maxPages ? pages.slice(0, options.maxPages) : pages };
+}
+
+// Check options received from the client. Page ranges are only checked for
+// syntax here because the page count isn't known yet.
+export function validatePdfOptions(value: unknown): Parsed<PdfOptions> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, error: "expected an object" };
+  }
+  const { pages, scale, maxPages } = value as Record<string, unknown>;
+
+  if (pages !== undefined) {
+    if (typeof pages !== "string") return { ok: false, error: "pages must be a string" };
+    const ranges = parsePageRanges(pages);
+    if (!ranges.ok) return ranges;
+  }
+  if (scale !== undefined && (typeof scale !== "number" || !(scale > 0 && scale <= MAX_RENDER_SCALE))) {
+    return { ok: false, error: `scale must be a number above 0 and at most ${MAX_RENDER_SCALE}` };
+  }
+  if (maxPages !== undefined && (typeof maxPages !== "number" || !Number.isInteger(maxPages) || maxPages < 1)) {
+    return { ok: false, error: "maxPages must be a positive whole number" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      pages: pages as string | undefined,
+      scale: scale as number | undefined,
+      maxPages: maxPages as number | undefined,
+    },
+  };
+}
+
+export interface PdfCostEstimate {
+  modelCalls: number;
+  // Image input tokens if every selected page is rendered; pages read from
+  // their text layer cost less
+  imageTokens: number;
+}
+
+// Gemini bills images in 768px tiles of 258 tokens each. Other providers
+// count differently, so this is a rough guide rather than a quote.
+const TOKENS_PER_TILE = 258;
+const TILE_SIZE = 768;
+
+// Upper-bound cost of processing `pageCount` pages of the given size: one
+// extraction call per page, before retries and repair prompts
+export function estimatePdfCost(
+  pageCount: number,
+  pageSize: { width: number; height: number },
+  scale: number
+): PdfCostEstimate {
+  const tiles =
+    Math.ceil((pageSize.width * scale) / TILE_SIZE) * Math.ceil((pageSize.height * scale) / TILE_SIZE);
+  return { modelCalls: pageCount, imageTokens: pageCount * Math.max(tiles, 1) * TOKENS_PER_TILE };
+}
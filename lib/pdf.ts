@@ -0,0 +1,130 @@
+// The legacy build runs on Node versions without Promise.withResolvers (< 22)
+import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
+import path from "path";
+import { loadCanvasModule } from "@/lib/optional-modules";
+import { DEFAULT_RENDER_SCALE, selectPdfPages, type PdfInfo, type PdfOptions } from "@/lib/pdf-options";
+
+// Configure PDF.js worker for Node.js
+// Set the worker source path for server-side rendering
+try {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = require.resolve(
+    "pdfjs-dist/legacy/build/pdf.worker.min.mjs"
+  );
+} catch {
+  // Fallback: use relative path if require.resolve fails
+  pdfjsLib.GlobalWorkerOptions.workerSrc = "pdfjs-dist/legacy/build/pdf.worker.min.mjs";
+}
+
+// Glyph data for the 14 standard PDF fonts, which text extraction needs for
+// documents that don't embed them. Resolved from the project root because
+// require.resolve is rewritten by the bundler.
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") + path.sep;
+
+// Helper function to get canvas (lazy load to avoid build-time resolution)
+const getCreateCanvas = () => loadCanvasModule()?.createCanvas ?? null;
+
+// A page's text layer is used instead of rendering it when it holds enough
+// readable text. Scanned pages have none, image-only exports at most a
+// header or page number, and broken font mappings come out as garbage.
+const MIN_TEXT_CHARS = 80;
+const MIN_TEXT_LINES = 3;
+const MIN_PRINTABLE_RATIO = 0.9;
+// Pages that also draw images (e.g. screenshots pasted into a report) are
+// rendered unless the text clearly carries the content
+const MIN_TEXT_CHARS_WITH_IMAGES = 400;
+
+const IMAGE_OPS = new Set([
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintInlineImageXObject,
+  pdfjsLib.OPS.paintImageXObjectRepeat,
+]);
+
+export type PdfPage =
+  | { pageNumber: number; source: "text-layer"; text: string }
+  | { pageNumber: number; source: "rendered"; image: Buffer }
+  // The page needed rendering but canvas isn't installed
+  | { pageNumber: number; source: "rendered"; error: string };
+
+function isTextLayerUsable(text: string, hasImages: boolean): boolean {
+  const visible = text.replace(/\s/g, "");
+  if (visible.length < (hasImages ? MIN_TEXT_CHARS_WITH_IMAGES : MIN_TEXT_CHARS)) return false;
+  if (text.split("\n").filter((line) => line.trim()).length < MIN_TEXT_LINES) return false;
+  // U+FFFD and control characters show up when glyphs have no Unicode mapping
+  const printable = visible.replace(/[\uFFFD\u0000-\u001F]/g, "").length;
+  return printable / visible.length >= MIN_PRINTABLE_RATIO;
+}
+
+const openPdf = (pdfBuffer: Buffer) =>
+  pdfjsLib.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+
+// Page count and first-page size, read from the document structure without
+// rendering or extracting anything
+export const readPdfInfo = async (pdfBuffer: Buffer): Promise<PdfInfo> => {
+  const pdf = await openPdf(pdfBuffer);
+  try {
+    const viewport = (await pdf.getPage(1)).getViewport({ scale: 1 });
+    return { pageCount: pdf.numPages, width: viewport.width, height: viewport.height };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Read the selected pages of a PDF, preferring the text layer and rendering
+// only scanned or image-only pages. Rendering needs the optional canvas
+// module; without it those pages come back with an error instead of failing
+// the file. Throws when the page selection doesn't fit the document.
+export const readPdfPages = async (pdfBuffer: Buffer, options: PdfOptions = {}): Promise<PdfPage[]> => {
+  const pdf = await openPdf(pdfBuffer);
+  try {
+    const selection = selectPdfPages(pdf.numPages, options);
+    if (!selection.ok) {
+      throw new Error(selection.error);
+    }
+    const pages: PdfPage[] = [];
+
+    for (const pageNum of selection.value) {
+      const page = await pdf.getPage(pageNum);
+
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("")
+        .trim();
+      const operators = await page.getOperatorList();
+      const hasImages = operators.fnArray.some((op) => IMAGE_OPS.has(op));
+
+      if (isTextLayerUsable(text, hasImages)) {
+        pages.push({ pageNumber: pageNum, source: "text-layer", text });
+        continue;
+      }
+
+      const createCanvas = getCreateCanvas();
+      if (!createCanvas) {
+        pages.push({
+          pageNumber: pageNum,
+          source: "rendered",
+          error: "This page has no usable text layer and needs rendering, but the canvas module is not installed.",
+        });
+        continue;
+      }
+
+      const viewport = page.getViewport({ scale: options.scale ?? DEFAULT_RENDER_SCALE });
+      const canvas = createCanvas(viewport.width, viewport.height);
+      const context = canvas.getContext("2d");
+
+      await page.render({
+        canvasContext: context,
+        viewport: viewport,
+      }).promise;
+
+      pages.push({ pageNumber: pageNum, source: "rendered", image: canvas.toBuffer("image/png") });
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
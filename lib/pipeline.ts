@@ -0,0 +1,753 @@
+import {
+  createProvider,
+  isProviderId,
+  requiresApiKey,
+  type CompletionRequest,
+  type ExtractionRequest,
+  type ProviderConfig,
+} from "@/lib/providers";
+import type {
+  CaptureTimeSource,
+  ExtractedComment,
+  PdfPageSource,
+  ProcessedComment,
+  ProgressEvent,
+} from "@/lib/types";
+import { createLimiter, mapWithConcurrency } from "@/lib/concurrency";
+import { DEFAULT_RETRY_OPTIONS, withRetry, type RetryOptions } from "@/lib/retry";
+import { compareSourceOrder } from "@/lib/results";
+import { readPdfPages } from "@/lib/pdf";
+import { validatePdfOptions, type PdfOptions } from "@/lib/pdf-options";
+import { assignThreads } from "@/lib/threading";
+import { isPlatformId, type PlatformId, type PlatformSetting } from "@/lib/platforms";
+import { applyPlatformProfile, parsePlatformClassification, PLATFORM_PROFILES } from "@/lib/platform-profiles";
+import { exifCaptureDate, type ExifCaptureTime } from "@/lib/exif";
+import {
+  DEFAULT_MAX_IMAGE_DIMENSION,
+  MIN_MAX_IMAGE_DIMENSION,
+  preprocessImage,
+  type PreprocessedImage,
+} from "@/lib/preprocess";
+import { normalizeTimestamp } from "@/lib/timestamps";
+import { parseCount, parseReactionCounts } from "@/lib/counts";
+import { scoreConfidence, worstParsePath, type ParsePath } from "@/lib/confidence";
+import { mergeTileResults, splitIntoTiles } from "@/lib/tiling";
+import { getResultCache, resultCacheKey, toCachedExtraction } from "@/lib/result-cache";
+import {
+  CLASSIFY_PROMPT,
+  CLASSIFY_RESPONSE_SCHEMA,
+  ENRICHMENT_RESPONSE_SCHEMA,
+  PROMPT_VERSION,
+  TRANSLATION_RESPONSE_SCHEMA,
+  buildEnrichmentPrompt,
+  buildExtractionPrompt,
+  buildTextExtractionPrompt,
+  buildTranslationPrompt,
+} from "@/lib/prompts";
+import { parseEnrichmentLabels, parseTranslations, toBatches } from "@/lib/enrichment";
+import { parseTopics } from "@/lib/labels";
+import { isLanguageCode } from "@/lib/languages";
+import {
+  COMMENT_RESPONSE_SCHEMA,
+  buildRepairPrompt,
+  parseModelJson,
+  validateCommentResponse,
+} from "@/lib/comment-schema";
+
+// How many times a reply that fails schema validation is sent back for repair
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Simultaneous model calls per request. Kept low by default so a 50-file
+// batch fits in maxDuration without tripping per-minute quotas.
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+function clampConcurrency(value: number): number {
+  if (!Number.isFinite(value) || value < 1) return DEFAULT_CONCURRENCY;
+  return Math.min(Math.floor(value), MAX_CONCURRENCY);
+}
+
+// An uploaded file read into memory, so processing can outlive the request
+export interface SourceFile {
+  name: string;
+  type: string;
+  data: Buffer;
+  // File.lastModified from the browser, which multipart uploads drop
+  lastModified?: number;
+  // Page selection and render scale, for PDFs
+  pdfOptions?: PdfOptions;
+}
+
+export interface ProcessOptions {
+  providerConfig: ProviderConfig;
+  concurrency: number;
+  platform: PlatformSetting;
+  // User-entered capture time (ISO), overriding EXIF and file dates
+  captureDate?: string;
+  // The browser's Date.getTimezoneOffset(), for calendar dates and EXIF times
+  timezoneOffset?: number;
+  // Topic taxonomy for the enrichment pass; enrichment is off when unset
+  enrichmentTopics?: string[];
+  // ISO 639-1 code to translate comments into; translation is off when unset
+  translateTo?: string;
+  // Longest side, in pixels, of images sent to the model
+  maxImageDimension: number;
+  // Extract again even when the result cache has an entry
+  forceRefresh?: boolean;
+}
+
+interface CaptureTime {
+  at: Date;
+  source: CaptureTimeSource;
+}
+
+// Reference time for relative timestamps, from the most to the least
+// trustworthy source: the user's own entry, the image's EXIF capture time,
+// the file's modification date, and finally the time of processing
+function resolveCaptureTime(
+  file: SourceFile,
+  exif: ExifCaptureTime | null,
+  captureDate?: string,
+  timezoneOffset?: number
+): CaptureTime {
+  if (captureDate) {
+    return { at: new Date(captureDate), source: "user" };
+  }
+  const exifDate = exif && exifCaptureDate(exif, timezoneOffset);
+  if (exifDate) {
+    return { at: exifDate, source: "exif" };
+  }
+  if (file.lastModified) {
+    return { at: new Date(file.lastModified), source: "file" };
+  }
+  return { at: new Date(), source: "processed" };
+}
+
+export interface ProcessRequest extends ProcessOptions {
+  files: SourceFile[];
+}
+
+// What one item is extracted from: an image, or the text layer of a PDF page
+type ItemSource =
+  | { image: Buffer; mimeType: string; pageSource?: PdfPageSource }
+  | { text: string; pageSource: PdfPageSource };
+
+// Thrown out of processFiles when its AbortSignal fires
+export class CancelledError extends Error {
+  constructor() {
+    super("Processing was cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+// Validate the multipart payload shared by /api/process-images and /api/jobs.
+// Returns the error message for a 400 response instead of throwing.
+export async function parseProcessRequest(
+  formData: FormData
+): Promise<{ ok: true; request: ProcessRequest } | { ok: false; error: string }> {
+  const apiKey = formData.get("apiKey") as string;
+  const providerId = (formData.get("provider") as string) || "gemini";
+  const files = formData.getAll("files") as File[];
+
+  if (!isProviderId(providerId)) {
+    return { ok: false, error: `Unknown provider: ${providerId}` };
+  }
+
+  const providerConfig: ProviderConfig = {
+    provider: providerId,
+    apiKey: apiKey || undefined,
+    model: (formData.get("model") as string) || undefined,
+    baseUrl: (formData.get("baseUrl") as string) || undefined,
+  };
+
+  if (!apiKey && requiresApiKey(providerConfig)) {
+    return { ok: false, error: "API key is required" };
+  }
+
+  const platform = (formData.get("platform") as string) || "auto";
+  if (platform !== "auto" && !isPlatformId(platform)) {
+    return { ok: false, error: `Unknown platform: ${platform}` };
+  }
+
+  const translateTo = (formData.get("translateTo") as string) || undefined;
+  if (translateTo && !isLanguageCode(translateTo)) {
+    return { ok: false, error: `Unknown translation language: ${translateTo}` };
+  }
+
+  const captureDate = (formData.get("captureDate") as string) || undefined;
+  if (captureDate && Number.isNaN(Date.parse(captureDate))) {
+    return { ok: false, error: `Invalid capture date: ${captureDate}` };
+  }
+  const timezoneOffset = Number(formData.get("timezoneOffset"));
+  const maxImageDimensionValue = formData.get("maxImageDimension") as string | null;
+  const maxImageDimension = maxImageDimensionValue ? Number(maxImageDimensionValue) : DEFAULT_MAX_IMAGE_DIMENSION;
+  if (!Number.isInteger(maxImageDimension) || maxImageDimension < MIN_MAX_IMAGE_DIMENSION) {
+    return {
+      ok: false,
+      error: `Invalid max image dimension: ${maxImageDimensionValue} (must be a whole number of at least ${MIN_MAX_IMAGE_DIMENSION})`,
+    };
+  }
+  // An empty taxonomy still labels sentiment and intent
+  const enrichmentTopics =
+    formData.get("enrich") === "true" ? parseTopics((formData.get("topics") as string) || "") : undefined;
+  // Sent in upload order, one per file
+  const lastModified = formData.getAll("lastModified").map(Number);
+
+  if (!files || files.length === 0) {
+    return { ok: false, error: "No files provided" };
+  }
+
+  // Also one per file, as JSON; empty for images and PDFs without options
+  const pdfOptions: Array<PdfOptions | undefined> = [];
+  for (const [index, value] of formData.getAll("pdfOptions").entries()) {
+    if (!value) continue;
+    let options;
+    try {
+      options = validatePdfOptions(JSON.parse(value as string));
+    } catch {
+      options = { ok: false as const, error: "not valid JSON" };
+    }
+    if (!options.ok) {
+      return { ok: false, error: `Invalid PDF options for ${files[index]?.name ?? `file ${index + 1}`}: ${options.error}` };
+    }
+    pdfOptions[index] = options.value;
+  }
+
+  return {
+    ok: true,
+    request: {
+      providerConfig,
+      concurrency: clampConcurrency(Number(formData.get("concurrency"))),
+      platform,
+      captureDate: captureDate && new Date(captureDate).toISOString(),
+      timezoneOffset: Number.isFinite(timezoneOffset) ? timezoneOffset : undefined,
+      enrichmentTopics,
+      translateTo,
+      maxImageDimension,
+      forceRefresh: formData.get("forceRefresh") === "true",
+      files: await Promise.all(
+        files.map(async (file, index) => ({
+          name: file.name,
+          type: file.type,
+          data: Buffer.from(await file.arrayBuffer()),
+          lastModified: lastModified[index] > 0 ? lastModified[index] : undefined,
+          pdfOptions: pdfOptions[index],
+        }))
+      ),
+    },
+  };
+}
+
+// Extract comments from every file, reporting progress through `emit`.
+// Up to `concurrency` files are read/converted at once; their images then
+// queue on a shared model-call limiter. Resolves with the results in upload
+// order, or rejects with CancelledError once `signal` is aborted.
+export async function processFiles(
+  files: SourceFile[],
+  {
+    providerConfig,
+    concurrency,
+    platform: platformSetting,
+    captureDate,
+    timezoneOffset,
+    enrichmentTopics,
+    translateTo,
+    maxImageDimension,
+    forceRefresh,
+  }: ProcessOptions,
+  emit: (event: ProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<ProcessedComment[]> {
+  const provider = createProvider(providerConfig);
+  const results: ProcessedComment[] = [];
+
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+  };
+
+  // Model calls across all files share one limiter and one rate-limit cooldown
+  const limitModelCalls = createLimiter(concurrency);
+  const retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, cooldown: { until: 0 } };
+
+  // One provider call through the shared limiter and retry policy.
+  // `onRetry` lets the caller count retries for its result.
+  // Cancelling cuts retry waits short and fails the call as cancelled.
+  const callModel = async (request: ExtractionRequest | CompletionRequest, onRetry: () => void) => {
+    const { value } = await limitModelCalls(async () => {
+      throwIfCancelled();
+      try {
+        return await withRetry(
+          () => ("image" in request ? provider.extract(request) : provider.complete(request)),
+          { ...retryOptions, onRetry, signal }
+        );
+      } catch (error) {
+        throwIfCancelled();
+        throw error;
+      }
+    });
+    return value;
+  };
+
+  // Run a text-only pass (labelling, translation) over extracted comments in
+  // batches, collecting one value per comment id. Passes are extras on top of
+  // a successful extraction, so failures are reported instead of thrown.
+  const runCommentPass = async <T>(
+    name: string,
+    comments: ExtractedComment[],
+    buildRequest: (batch: ExtractedComment[]) => CompletionRequest,
+    parse: (value: unknown) => Map<string, T>,
+    onRetry: () => void
+  ): Promise<{ values: Map<string, T>; error?: string }> => {
+    const values = new Map<string, T>();
+    let error: string | undefined;
+
+    await Promise.all(
+      toBatches(comments).map(async (batch) => {
+        try {
+          const response = await callModel(buildRequest(batch), onRetry);
+          const parsed = parseModelJson(response.text);
+          if (!parsed.ok) {
+            error = `${name} failed: ${parsed.error}`;
+            return;
+          }
+          parse(parsed.value).forEach((value, id) => values.set(id, value));
+        } catch (batchError) {
+          if (batchError instanceof CancelledError) throw batchError;
+          error = `${name} failed: ${(batchError as Error).message}`;
+        }
+      })
+    );
+
+    return { values, error };
+  };
+
+  // Label comments with sentiment, intent and topics, and translate those not
+  // already in the target language. The verbatim text is never replaced.
+  const enrichComments = async (
+    comments: ExtractedComment[],
+    onRetry: () => void
+  ): Promise<{ comments: ExtractedComment[]; error?: string }> => {
+    const errors: string[] = [];
+    let enriched = comments;
+
+    if (enrichmentTopics) {
+      const topics = enrichmentTopics;
+      const { values, error } = await runCommentPass(
+        "Enrichment",
+        enriched,
+        (batch) => ({ prompt: buildEnrichmentPrompt(batch, topics), responseSchema: ENRICHMENT_RESPONSE_SCHEMA }),
+        (value) => parseEnrichmentLabels(value, topics),
+        onRetry
+      );
+      if (error) errors.push(error);
+      enriched = enriched.map((comment) => {
+        const labels = values.get(comment.id);
+        return labels ? { ...comment, labels } : comment;
+      });
+    }
+
+    if (translateTo) {
+      const language = translateTo;
+      const { values, error } = await runCommentPass(
+        "Translation",
+        enriched.filter((comment) => comment.language !== language),
+        (batch) => ({ prompt: buildTranslationPrompt(batch, language), responseSchema: TRANSLATION_RESPONSE_SCHEMA }),
+        parseTranslations,
+        onRetry
+      );
+      if (error) errors.push(error);
+      enriched = enriched.map((comment) => {
+        const text = values.get(comment.id);
+        return text ? { ...comment, translation: { language, text } } : comment;
+      });
+    }
+
+    return { comments: enriched, error: errors.length > 0 ? errors.join("; ") : undefined };
+  };
+
+  // Ask the model which platform the screenshot is from. Classification is a
+  // best-effort hint, so anything short of a clear answer means "generic".
+  const classifyPlatform = async (
+    imageBuffer: Buffer,
+    mimeType: string,
+    onRetry: () => void
+  ): Promise<PlatformId> => {
+    try {
+      const response = await callModel(
+        {
+          image: imageBuffer,
+          mimeType,
+          prompt: CLASSIFY_PROMPT,
+          responseSchema: CLASSIFY_RESPONSE_SCHEMA,
+        },
+        onRetry
+      );
+      const parsed = parseModelJson(response.text);
+      return parsed.ok ? parsePlatformClassification(parsed.value) : "generic";
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      return "generic";
+    }
+  };
+
+  // Helper function to process a single image, or a PDF page's text layer.
+  // Never throws: provider errors that survive the retries come back as a
+  // failed result.
+  const processImage = async (
+    item: ItemSource,
+    fileIndex: number,
+    fileName: string,
+    capture: CaptureTime,
+    pageNumber?: number,
+    // Set for one tile of a tiled image: the platform determined once for the
+    // whole file. Enrichment is left to the merged result.
+    tile?: { platform: PlatformId }
+  ): Promise<ProcessedComment> => {
+    const displayName = pageNumber 
+      ? `${fileName} (page ${pageNumber})`
+      : fileName;
+    const timestampContext = { reference: capture.at, timezoneOffset };
+
+    let responseText = "";
+    let errors: string[] = [];
+    let retries = 0;
+    const countRetry = () => {
+      retries++;
+    };
+
+    // Platform profiles describe on-screen layouts, so text pages are generic
+    const platform =
+      tile?.platform ??
+      ("text" in item
+        ? "generic"
+        : platformSetting === "auto"
+          ? await classifyPlatform(item.image, item.mimeType, countRetry)
+          : platformSetting);
+    const source = {
+      imageName: displayName,
+      fileIndex,
+      pageNumber,
+      pageSource: item.pageSource,
+      platform,
+      capturedAt: capture.at.toISOString(),
+      capturedAtSource: capture.source,
+    };
+    const basePrompt =
+      "text" in item
+        ? buildTextExtractionPrompt(item.text)
+        : buildExtractionPrompt(platform, PLATFORM_PROFILES[platform].notes);
+    let prompt = basePrompt;
+
+    try {
+      // First attempt plus up to MAX_REPAIR_ATTEMPTS re-asks with the
+      // validation errors fed back to the model
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const response = await callModel(
+          "text" in item
+            ? { prompt, responseSchema: COMMENT_RESPONSE_SCHEMA }
+            : {
+                image: item.image,
+                mimeType: item.mimeType,
+                prompt,
+                responseSchema: COMMENT_RESPONSE_SCHEMA,
+              },
+          countRetry
+        );
+        responseText = response.text;
+
+        const parsed = response.comments
+          ? { ok: true as const, value: { comments: response.comments }, extracted: false }
+          : parseModelJson(responseText);
+        const validation = parsed.ok
+          ? validateCommentResponse(parsed.value)
+          : { ok: false as const, errors: [parsed.error] };
+
+        if (validation.ok) {
+          const parsePath: ParsePath =
+            attempt > 0
+              ? "repaired"
+              : response.comments
+                ? "structured"
+                : parsed.ok && parsed.extracted
+                  ? "extracted"
+                  : "json";
+          const comments = assignThreads(
+            applyPlatformProfile(platform, validation.comments),
+            displayName
+          ).map((comment) => {
+            const confidence = scoreConfidence(comment, parsePath);
+            return {
+              ...comment,
+              timestampNormalized: normalizeTimestamp(comment.timestamp, timestampContext) ?? undefined,
+              likesCount: parseCount(comment.likes) ?? undefined,
+              reactionCounts: parseReactionCounts(comment.reactions),
+              confidenceScore: confidence.score,
+              confidenceReasons: confidence.reasons.length > 0 ? confidence.reasons : undefined,
+            };
+          });
+          const enriched =
+            comments.length > 0 && !tile ? await enrichComments(comments, countRetry) : { comments };
+
+          return {
+            ...source,
+            status: "succeeded",
+            parsePath,
+            comments: enriched.comments,
+            enrichmentError: enriched.error,
+            rawResponse: responseText,
+            retries,
+          };
+        }
+
+        errors = validation.errors;
+        prompt = buildRepairPrompt(basePrompt, responseText, errors);
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      return {
+        ...source,
+        status: "failed",
+        comments: [],
+        rawResponse: responseText,
+        error: `Error processing file: ${(error as Error).message}`,
+        retries,
+      };
+    }
+
+    return {
+      ...source,
+      status: "failed",
+      comments: [],
+      rawResponse: responseText,
+      error: `Model output failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${errors.slice(0, 3).join("; ")}`,
+      retries,
+    };
+  };
+
+  // Tall scroll captures are extracted tile by tile and merged back into one
+  // result for the file; everything else goes straight to processImage
+  const processImageFile = async (
+    { image: imageBuffer, mimeType, preprocessing }: PreprocessedImage,
+    fileIndex: number,
+    fileName: string,
+    capture: CaptureTime
+  ): Promise<ProcessedComment> => {
+    const split = await splitIntoTiles(imageBuffer, mimeType);
+    if (!split) {
+      return { ...(await processImage({ image: imageBuffer, mimeType }, fileIndex, fileName, capture)), preprocessing };
+    }
+    const tiledPreprocessing = {
+      ...preprocessing,
+      sentBytes: split.tiles.reduce((sum, tile) => sum + tile.image.length, 0),
+    };
+
+    let classifyRetries = 0;
+    const platform =
+      platformSetting === "auto"
+        ? await classifyPlatform(split.tiles[0].image, split.tiles[0].mimeType, () => classifyRetries++)
+        : platformSetting;
+    const tileResults = await Promise.all(
+      split.tiles.map((tile, index) =>
+        processImage(
+          { image: tile.image, mimeType: tile.mimeType },
+          fileIndex,
+          `${fileName} (tile ${index + 1})`,
+          capture,
+          undefined,
+          { platform }
+        )
+      )
+    );
+
+    const succeeded = tileResults.filter((result) => result.status === "succeeded");
+    const failed = tileResults.filter((result) => result.status === "failed");
+    const tiles = { count: tileResults.length, failed: failed.length };
+    let retries = tileResults.reduce((sum, result) => sum + (result.retries ?? 0), classifyRetries);
+    if (succeeded.length === 0) {
+      return { ...failed[0], imageName: fileName, retries, tiles, preprocessing: tiledPreprocessing };
+    }
+
+    // Enriched once after merging, so comments repeated in the overlap
+    // aren't labelled or translated twice
+    const merged = mergeTileResults(tileResults, split.tiles, split.height, fileName);
+    const enriched = merged.length > 0 ? await enrichComments(merged, () => retries++) : { comments: merged };
+    return {
+      ...succeeded[0],
+      imageName: fileName,
+      comments: enriched.comments,
+      parsePath: worstParsePath(succeeded.map((result) => result.parsePath)),
+      rawResponse: tileResults.map((result) => result.rawResponse).join("\n\n"),
+      error: failed.length > 0 ? `${failed.length} of ${tiles.count} tiles failed: ${failed[0].error}` : undefined,
+      enrichmentError: enriched.error,
+      retries,
+      tiles,
+      preprocessing: tiledPreprocessing,
+    };
+  };
+
+  const resultCache = getResultCache();
+  const cacheContext = {
+    promptVersion: PROMPT_VERSION,
+    provider: provider.id,
+    model: provider.model,
+    baseUrl: providerConfig.baseUrl,
+    platform: platformSetting,
+    enrichmentTopics,
+    translateTo,
+  };
+
+  // Serve an image or PDF page from the result cache, or extract it and
+  // cache the extraction output when it came through without errors. Cached
+  // comments are re-identified under this upload's name and their relative
+  // timestamps re-resolved against this upload's capture time; everything
+  // else about the upload comes from `upload`, never from the cache entry.
+  const extractWithCache = async (
+    content: Buffer | string,
+    upload: Pick<ProcessedComment, "imageName" | "fileIndex" | "pageNumber" | "preprocessing">,
+    capture: CaptureTime,
+    extract: () => Promise<ProcessedComment>
+  ): Promise<ProcessedComment> => {
+    if (!resultCache) {
+      return extract();
+    }
+
+    const key = resultCacheKey(content, cacheContext);
+    const cached = forceRefresh ? undefined : await resultCache.get(key);
+    if (cached) {
+      // Entries written before only the extraction output was stored still
+      // carry upload metadata, so pick the fields again
+      const { comments, ...extraction } = toCachedExtraction(cached);
+      const timestampContext = { reference: capture.at, timezoneOffset };
+      const rethreaded = comments.map(({ id: _id, parentId: _parentId, ...comment }) => ({
+        ...comment,
+        timestampNormalized: normalizeTimestamp(comment.timestamp, timestampContext) ?? undefined,
+      }));
+      return {
+        ...extraction,
+        ...upload,
+        capturedAt: capture.at.toISOString(),
+        capturedAtSource: capture.source,
+        comments: assignThreads(rethreaded, upload.imageName),
+        cached: true,
+      };
+    }
+
+    const result = await extract();
+    if (result.status === "succeeded" && !result.error && !result.enrichmentError) {
+      await resultCache.set(key, toCachedExtraction(result));
+    }
+    return { ...result, cached: false };
+  };
+
+  const pushResult = (result: ProcessedComment) => {
+    results.push(result);
+    emit({
+      type: result.status === "failed" ? "item-failed" : "item-succeeded",
+      fileIndex: result.fileIndex,
+      pageNumber: result.pageNumber,
+      result,
+    });
+  };
+
+  emit({ type: "start", totalFiles: files.length });
+
+  await mapWithConcurrency(files, concurrency, async (file, fileIndex) => {
+    throwIfCancelled();
+    emit({ type: "file-started", fileIndex, fileName: file.name });
+
+    try {
+      const buffer = file.data;
+
+      if (file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")) {
+        const capture = resolveCaptureTime(file, null, captureDate, timezoneOffset);
+        // Handle PDF files - read each page's text layer, or render it to an
+        // image when it has none
+        try {
+          const pdfPages = await readPdfPages(buffer, file.pdfOptions);
+          emit({ type: "file-pages", fileIndex, pageCount: pdfPages.length });
+
+          // Process each page as a separate item
+          await Promise.all(
+            pdfPages.map(async (page) => {
+              const { pageNumber } = page;
+              const imageName = `${file.name} (page ${pageNumber})`;
+              emit({ type: "item-started", fileIndex, imageName, pageNumber });
+              if ("error" in page) {
+                pushResult({
+                  imageName,
+                  fileIndex,
+                  pageNumber,
+                  pageSource: page.source,
+                  status: "failed",
+                  comments: [],
+                  rawResponse: "",
+                  error: page.error,
+                });
+                return;
+              }
+              pushResult(
+                await extractWithCache(
+                  "text" in page ? page.text : page.image,
+                  { imageName, fileIndex, pageNumber },
+                  capture,
+                  () =>
+                    processImage(
+                      "text" in page
+                        ? { text: page.text, pageSource: page.source }
+                        : { image: page.image, mimeType: "image/png", pageSource: page.source },
+                      fileIndex,
+                      file.name,
+                      capture,
+                      pageNumber
+                    )
+                )
+              );
+            })
+          );
+        } catch (pdfError) {
+          if (pdfError instanceof CancelledError) throw pdfError;
+          pushResult({
+            imageName: file.name,
+            fileIndex,
+            status: "failed",
+            comments: [],
+            rawResponse: "",
+            error: `Error processing PDF: ${(pdfError as Error).message}`,
+          });
+        }
+      } else {
+        // Handle regular image files: convert, downscale and strip metadata
+        // first, keeping the EXIF capture time
+        emit({ type: "item-started", fileIndex, imageName: file.name });
+        const prepared = await preprocessImage(buffer, file.type || "image/jpeg", maxImageDimension);
+        const capture = resolveCaptureTime(file, prepared.exifCapture, captureDate, timezoneOffset);
+        pushResult(
+          await extractWithCache(
+            prepared.image,
+            { imageName: file.name, fileIndex, preprocessing: prepared.preprocessing },
+            capture,
+            () => processImageFile(prepared, fileIndex, file.name, capture)
+          )
+        );
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      pushResult({
+        imageName: file.name,
+        fileIndex,
+        status: "failed",
+        comments: [],
+        rawResponse: "",
+        error: `Error processing file: ${(error as Error).message}`,
+      });
+    }
+
+    emit({ type: "file-finished", fileIndex });
+  });
+
+  results.sort(compareSourceOrder);
+  emit({ type: "done", totalResults: results.length });
+  return results;
+}
@@ -0,0 +1,122 @@
+import { isPlatformId, type PlatformId } from "@/lib/platforms";
+import type { RawComment } from "@/lib/types";
+
+export interface PlatformProfile {
+  // Extra extraction instructions inserted into the prompt
+  notes?: string;
+  // Clean up one extracted comment; return null to drop rows that are UI
+  // chrome rather than comments (e.g. "Load more comments")
+  postProcess?: (comment: RawComment) => RawComment | null;
+}
+
+function addBadge(comment: RawComment, badge: string): RawComment {
+  const badges = comment.badges ?? [];
+  return badges.includes(badge) ? comment : { ...comment, badges: [...badges, badge] };
+}
+
+// Remove trailing action-bar text the model sometimes copies into the comment
+function stripTrailing(comment: RawComment, pattern: RegExp): RawComment {
+  const text = comment.text.replace(pattern, "").trimEnd();
+  return text && text !== comment.text ? { ...comment, text } : comment;
+}
+
+const stripAt = (comment: RawComment): RawComment =>
+  comment.username?.startsWith("@") ? { ...comment, username: comment.username.substring(1) } : comment;
+
+export const PLATFORM_PROFILES: Record<PlatformId, PlatformProfile> = {
+  instagram: {
+    notes: `- Usernames are shown in bold before the comment text; don't repeat them in "text"
+- "Reply", "See translation" and "Hide replies" are buttons, not part of the comment
+- "View N more replies" / "View all N replies" go in "replyCount" of the comment above them
+- A blue check mark next to the username is the "verified" badge; "Author" marks the post owner`,
+    postProcess: (comment) => stripTrailing(stripAt(comment), /\s*(Reply|See translation)\s*$/i),
+  },
+  x: {
+    notes: `- Each reply is a post: "username" is the @handle (not the display name)
+- "Replying to @someone" is not part of the text
+- "likes" is the heart count; ignore repost, quote and view counts
+- Posts in the same thread connected by a vertical line are replies (depth 1 or more)`,
+    postProcess: (comment) => stripTrailing(stripAt(comment), /\s*Show (more|this thread)\s*$/i),
+  },
+  youtube: {
+    notes: `- "Pinned by @creator" above a comment is the "pinned" badge, not part of the text
+- A small heart with the creator's avatar is the "creator-heart" badge
+- "likes" is the thumbs-up count; there is no visible dislike count
+- "N replies" under a comment goes in "replyCount"`,
+    postProcess: (comment) => {
+      let result = stripAt(comment);
+      const pinned = result.text.match(/^\s*📌?\s*Pinned by @?\S+\s*/i);
+      if (pinned) {
+        result = addBadge({ ...result, text: result.text.substring(pinned[0].length) }, "pinned");
+      }
+      return stripTrailing(result, /\s*(Reply|Read more|Show less)\s*$/i);
+    },
+  },
+  tiktok: {
+    notes: `- "Liked by creator" under a comment is the "creator-heart" badge
+- "Creator" next to a username is the "author" badge
+- "View N replies" goes in "replyCount"`,
+    postProcess: (comment) => {
+      let result = stripTrailing(comment, /\s*Reply\s*$/i);
+      if (/Liked by creator/i.test(result.text)) {
+        result = addBadge(
+          { ...result, text: result.text.replace(/\s*Liked by creator\s*/i, " ").trim() },
+          "creator-heart"
+        );
+      }
+      return result;
+    },
+  },
+  reddit: {
+    notes: `- "username" is the name after "u/" (without the prefix)
+- "likes" is the score next to the up/down arrows, including "Score hidden" if shown; a negative score keeps its minus sign
+- "OP" next to a username is the "author" badge; "[deleted]" / "[removed]" comments still count
+- Collapsed threads ("N more replies", "Continue this thread") go in "replyCount" of the comment above them
+- Indentation lines show nesting: use them for "depth"`,
+    postProcess: (comment) => {
+      let result = comment;
+      if (result.username) {
+        result = { ...result, username: result.username.replace(/^\/?u\//i, "") };
+      }
+      if (result.likes) {
+        result = { ...result, likes: result.likes.replace(/\s*(points?|votes?)\s*$/i, "") };
+      }
+      if (/^\s*\[(deleted|removed)\]\s*$/i.test(result.text)) {
+        result = addBadge(result, "deleted");
+      }
+      // "Load more comments" / "N more replies" rows aren't comments
+      if (/^\s*(load more comments|\d+ more repl(y|ies)|continue this thread)\b/i.test(result.text)) {
+        return null;
+      }
+      return result;
+    },
+  },
+  facebook: {
+    notes: `- "Like · Reply · Share · 2h" under a comment is the action bar: take "timestamp" from it, don't include it in "text"
+- "likes" is the total reaction count next to the reaction icons
+- If the reaction breakdown is shown, put each reaction's count in "reactions" (type "like", "love", "care", "haha", "wow", "sad" or "angry")
+- "Top fan", "Author" and "Admin" labels are badges
+- "View N replies" / "N replies" goes in "replyCount"`,
+    postProcess: (comment) =>
+      stripTrailing(comment, /\s*(Like|Love)?\s*·?\s*Reply(\s*·\s*Share)?(\s*·\s*\S+)?\s*$/i),
+  },
+  generic: {},
+};
+
+// Apply a profile's post-processing to every comment, dropping filtered rows
+export function applyPlatformProfile(platform: PlatformId, comments: RawComment[]): RawComment[] {
+  const postProcess = PLATFORM_PROFILES[platform].postProcess;
+  if (!postProcess) return comments;
+  return comments.flatMap((comment) => {
+    const result = postProcess(comment);
+    return result && result.text.trim() ? [result] : [];
+  });
+}
+
+// Read the classifier's answer, falling back to "generic" for anything unexpected
+export function parsePlatformClassification(value: unknown): PlatformId {
+  const platform = (value as Record<string, unknown> | null)?.platform;
+  const normalized = typeof platform === "string" ? platform.trim().toLowerCase() : "";
+  if (normalized === "twitter") return "x";
+  return isPlatformId(normalized) ? normalized : "generic";
+}
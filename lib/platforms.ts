@@ -0,0 +1,22 @@
+// Client-safe list of the platforms we have extraction profiles for
+
+export type PlatformId = "instagram" | "x" | "youtube" | "tiktok" | "reddit" | "facebook" | "generic";
+
+// What the Settings card sends: a fixed platform or "auto" to classify each image
+export type PlatformSetting = PlatformId | "auto";
+
+export const PLATFORM_IDS: PlatformId[] = ["instagram", "x", "youtube", "tiktok", "reddit", "facebook", "generic"];
+
+export const PLATFORM_LABELS: Record<PlatformId, string> = {
+  instagram: "Instagram",
+  x: "X (Twitter)",
+  youtube: "YouTube",
+  tiktok: "TikTok",
+  reddit: "Reddit",
+  facebook: "Facebook",
+  generic: "Other / unknown",
+};
+
+export function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === "string" && (PLATFORM_IDS as string[]).includes(value);
+}
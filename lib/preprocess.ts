@@ -0,0 +1,183 @@
+import { readExifCaptureTime, stripExif, type ExifCaptureTime } from "@/lib/exif";
+import { loadHeicConvert, loadSharpModule, type SharpMetadata, type SharpModule } from "@/lib/optional-modules";
+import { planTiles } from "@/lib/tiling";
+import type { ImagePreprocessing } from "@/lib/types";
+
+// Longest side sent to the model unless the request sets its own. Phone
+// screenshots fit as they are; camera photos and desktop captures shrink.
+export const DEFAULT_MAX_IMAGE_DIMENSION = 3072;
+export const MIN_MAX_IMAGE_DIMENSION = 512;
+
+const JPEG_QUALITY = 90;
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "heic" | "avif" | "tiff";
+
+// Formats every provider accepts as they are
+const SENDABLE_MIME_TYPES: Partial<Record<ImageFormat, string>> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+// ISOBMFF brands of HEVC-coded HEIF files. "mif1" is generic, so AVIF brands
+// are checked first.
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+
+// Identify an image by its leading bytes; browsers often send HEIC with an
+// empty or generic MIME type
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.length < 12) return null;
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return "jpeg";
+  if (buffer.readUInt32BE(0) === 0x89504e47) return "png";
+  if (buffer.toString("ascii", 0, 3) === "GIF") return "gif";
+  if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") return "webp";
+
+  const head = buffer.toString("latin1", 0, 4);
+  if (head === "II*\0" || head === "MM\0*") return "tiff";
+
+  if (buffer.toString("ascii", 4, 8) === "ftyp") {
+    // Major brand, then the compatible brands after the minor version
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [buffer.toString("ascii", 8, 12)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(buffer.toString("ascii", offset, offset + 4));
+    }
+    if (brands.some((brand) => AVIF_BRANDS.has(brand))) return "avif";
+    if (brands.some((brand) => HEIC_BRANDS.has(brand))) return "heic";
+  }
+  return null;
+}
+
+// Dimensions to send, or null when the image is small enough. Screenshots
+// tall enough to be tiled are limited by width only: each tile's height
+// follows its width, so shrinking the height too would only shrink the text.
+function targetSize(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } | null {
+  const limit = planTiles(width, height) ? width : Math.max(width, height);
+  if (limit <= maxDimension) return null;
+  const factor = maxDimension / limit;
+  return { width: Math.round(width * factor), height: Math.round(height * factor) };
+}
+
+export interface PreprocessedImage {
+  image: Buffer;
+  mimeType: string;
+  // Read from the original upload, before its metadata is stripped
+  exifCapture: ExifCaptureTime | null;
+  preprocessing: ImagePreprocessing;
+}
+
+type Encoded = Pick<PreprocessedImage, "image" | "mimeType"> & Pick<ImagePreprocessing, "resizedFrom">;
+
+// Upright, downscale and re-encode with sharp, which drops all metadata.
+// Images that need none of that only have their metadata stripped.
+async function encodeWithSharp(
+  sharp: SharpModule,
+  input: Buffer,
+  format: ImageFormat,
+  maxDimension: number,
+  metadata?: SharpMetadata
+): Promise<Encoded> {
+  metadata ??= await sharp(input).metadata();
+  const orientation = metadata.orientation ?? 1;
+  // EXIF orientations 5-8 are rotated a quarter turn
+  const [width, height] =
+    orientation >= 5 ? [metadata.height, metadata.width] : [metadata.width, metadata.height];
+  if (width === undefined || height === undefined) {
+    throw new Error(`sharp could not read the size of this ${format.toUpperCase()} image.`);
+  }
+  const size = targetSize(width, height, maxDimension);
+  const sendable = SENDABLE_MIME_TYPES[format];
+
+  // WebP keeps EXIF and XMP in chunks stripExif doesn't touch
+  if (sendable && !size && orientation === 1 && !(format === "webp" && (metadata.exif || metadata.xmp))) {
+    return { image: stripExif(input), mimeType: sendable };
+  }
+
+  let pipeline = sharp(input).rotate();
+  if (size) {
+    pipeline = pipeline.resize(size.width, size.height);
+  }
+  const resizedFrom = size ? { width, height } : undefined;
+
+  // Screenshots are mostly text, so lossless sources stay lossless
+  if (format === "png" || format === "gif" || format === "tiff") {
+    return { image: await pipeline.png().toBuffer(), mimeType: "image/png", resizedFrom };
+  }
+  if (format === "webp") {
+    return { image: await pipeline.webp({ quality: JPEG_QUALITY }).toBuffer(), mimeType: "image/webp", resizedFrom };
+  }
+  return { image: await pipeline.jpeg({ quality: JPEG_QUALITY }).toBuffer(), mimeType: "image/jpeg", resizedFrom };
+}
+
+// Prepare an upload for the model: convert HEIC, AVIF and TIFF to a format
+// every provider accepts, downscale anything larger than `maxDimension`, and
+// strip EXIF once the capture time has been read from it. Converting and
+// resizing need the optional sharp package (HEIC can also go through
+// heic-convert); without it images are sent at their original size.
+export async function preprocessImage(
+  buffer: Buffer,
+  declaredType: string,
+  maxDimension = DEFAULT_MAX_IMAGE_DIMENSION
+): Promise<PreprocessedImage> {
+  const format = detectImageFormat(buffer);
+  const sharp = loadSharpModule();
+  // HEIF containers can be inspected even when their HEVC data can't be decoded
+  const metadata = sharp ? await sharp(buffer).metadata().catch(() => null) : null;
+  const exifCapture =
+    readExifCaptureTime(buffer) ?? (metadata?.exif ? readExifCaptureTime(metadata.exif) : null);
+
+  const finish = (encoded: Encoded): PreprocessedImage => ({
+    image: encoded.image,
+    mimeType: encoded.mimeType,
+    exifCapture,
+    preprocessing: {
+      originalBytes: buffer.length,
+      sentBytes: encoded.image.length,
+      convertedFrom: format && !SENDABLE_MIME_TYPES[format] ? format : undefined,
+      resizedFrom: encoded.resizedFrom,
+    },
+  });
+
+  // Unrecognized data goes out as it came, for the provider to judge
+  if (!format) {
+    return finish({ image: buffer, mimeType: declaredType });
+  }
+
+  if (sharp) {
+    try {
+      return finish(await encodeWithSharp(sharp, buffer, format, maxDimension, metadata ?? undefined));
+    } catch (error) {
+      // sharp's prebuilt binaries read HEIF but can't decode HEVC
+      if (format !== "heic") throw error;
+    }
+  }
+
+  if (format === "heic") {
+    const heicConvert = loadHeicConvert();
+    if (!heicConvert) {
+      throw new Error(
+        sharp
+          ? "sharp can't decode this HEIC image, and the optional heic-convert package is not installed."
+          : "Converting HEIC images needs the optional sharp or heic-convert package, and neither is installed."
+      );
+    }
+    const jpeg = Buffer.from(await heicConvert({ buffer, format: "JPEG", quality: JPEG_QUALITY / 100 }));
+    return finish(
+      sharp ? await encodeWithSharp(sharp, jpeg, "jpeg", maxDimension) : { image: jpeg, mimeType: "image/jpeg" }
+    );
+  }
+
+  const sendable = SENDABLE_MIME_TYPES[format];
+  if (!sendable) {
+    throw new Error(
+      `Converting ${format.toUpperCase()} images needs the optional sharp package, which is not installed.`
+    );
+  }
+  return finish({ image: stripExif(buffer), mimeType: sendable });
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { applyPrivacy } from "@/lib/privacy";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+const result = (comments: ExtractedComment[]): ProcessedComment => ({
+  imageName: "shot.png",
+  fileIndex: 0,
+  status: "succeeded",
+  comments,
+  rawResponse: "",
+});
+
+const thread = () =>
+  result([
+    { id: "c_aaaaaaaaaaaa", depth: 0, username: "alice", text: "Call me at 555-123-4567" },
+    { id: "c_bbbbbbbbbbbb", parentId: "c_aaaaaaaaaaaa", depth: 1, username: "bob", text: "@alice ok" },
+    { id: "c_cccccccccccc", parentId: "c_missing", depth: 1, username: "carol", text: "orphan" },
+  ]);
+
+describe("applyPrivacy", () => {
+  it("re-derives comment ids and remaps parent ids", () => {
+    const [{ comments }] = applyPrivacy([thread()], "salt").results;
+    const [parent, reply, orphan] = comments;
+    expect(comments.map((comment) => comment.id)).not.toContain("c_aaaaaaaaaaaa");
+    expect(reply.parentId).toBe(parent.id);
+    expect(orphan.parentId).toBeUndefined();
+  });
+
+  it("gives the same comment a different id with a different salt", () => {
+    const first = applyPrivacy([thread()], "one").results[0].comments[0].id;
+    expect(applyPrivacy([thread()], "one").results[0].comments[0].id).toBe(first);
+    expect(applyPrivacy([thread()], "two").results[0].comments[0].id).not.toBe(first);
+  });
+
+  it("keeps repeated comments apart", () => {
+    const comment = { depth: 0, username: "alice", text: "same" };
+    const [{ comments }] = applyPrivacy([result([{ id: "c_1", ...comment }, { id: "c_2", ...comment }])], "salt").results;
+    expect(new Set(comments.map((c) => c.id)).size).toBe(2);
+  });
+
+  it("maps redacted ids back to the originals that approvals are kept under", () => {
+    // Approved with privacy off, or loaded from an import
+    const approved = new Set(["c_aaaaaaaaaaaa", "c_cccccccccccc"]);
+    const { results, originalIds } = applyPrivacy([thread()], "salt");
+    const stillApproved = results[0].comments.filter((comment) => approved.has(originalIds.get(comment.id) ?? ""));
+    expect(stillApproved.map((comment) => comment.username)).toEqual([
+      results[0].comments[0].username,
+      results[0].comments[2].username,
+    ]);
+    expect(originalIds.get(results[0].comments[1].id)).toBe("c_bbbbbbbbbbbb");
+  });
+});
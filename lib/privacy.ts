@@ -0,0 +1,139 @@
+import { normalizeUsername } from "@/lib/text-similarity";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+// Client-safe privacy mode: pseudonymous usernames and masked contact details,
+// applied to results before they are displayed or exported
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|ly|gg|tv|app|dev)(?:\/[^\s<>"]*)?/gi;
+const EMAIL_PATTERN = /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi;
+// Runs of digits with phone-style separators; the digit count is checked
+// separately so like counts and years aren't caught
+const PHONE_PATTERN = /(?<![\w@])\+?\(?\d[\d\s().-]{5,}\d(?!\w)/g;
+const MENTION_PATTERN = /(^|[^\w@])@([a-z0-9_](?:[a-z0-9_.]{0,28}[a-z0-9_])?)/gi;
+
+// Generate a random salt for a run. Pseudonyms depend on it, so the same
+// handle gets a different pseudonym in every run.
+export function createPrivacySalt(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// cyrb53: a fast 53-bit string hash. Not cryptographic, but with an unknown
+// salt a pseudonym can't be traced back without the key file.
+function hash53(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+export function maskPii(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, "[email]")
+    .replace(URL_PATTERN, "[url]")
+    .replace(PHONE_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 7 && digits <= 15 ? "[phone]" : match;
+    });
+}
+
+export interface PrivacyResult<T> {
+  results: T[];
+  // Pseudonym -> original username, for the operator's key file
+  key: Map<string, string>;
+  // Redacted comment id -> original id, so approvals made with privacy off
+  // or carried in from imports still apply
+  originalIds: Map<string, string>;
+}
+
+// Replace usernames and @mentions with salted pseudonyms and mask contact
+// details in the text and its translation. The same handle maps to the same
+// pseudonym everywhere in the run. Comment ids are hashes of the original
+// username and text, so they're re-derived from the redacted fields and the
+// salt, and parent ids remapped to match.
+export function applyPrivacy<T extends Omit<ProcessedComment, "comments"> & { comments: ExtractedComment[] }>(
+  results: T[],
+  salt: string
+): PrivacyResult<T> {
+  const key = new Map<string, string>();
+  const pseudonyms = new Map<string, string>();
+
+  const pseudonymize = (username: string): string => {
+    const normalized = normalizeUsername(username) ?? username;
+    const existing = pseudonyms.get(normalized);
+    if (existing) return existing;
+
+    const base = `user_${hash53(`${salt}:${normalized}`).toString(36).padStart(11, "0").substring(0, 8)}`;
+    let pseudonym = base;
+    // Two handles hashing to the same prefix is unlikely, but keep them apart
+    for (let suffix = 2; key.has(pseudonym); suffix++) {
+      pseudonym = `${base}_${suffix}`;
+    }
+    pseudonyms.set(normalized, pseudonym);
+    key.set(pseudonym, username.trim().replace(/^@/, ""));
+    return pseudonym;
+  };
+
+  const redact = (text: string) =>
+    maskPii(text).replace(MENTION_PATTERN, (_, prefix: string, handle: string) => `${prefix}@${pseudonymize(handle)}`);
+
+  // Original id -> redacted id, across results since merged threads can span
+  // images
+  const ids = new Map<string, string>();
+  const originalIds = new Map<string, string>();
+  const seen = new Map<string, number>();
+  const redactId = (id: string, imageName: string, username: string | undefined, text: string): string => {
+    const baseId = hash53(`${salt}:${imageName}\n${username ?? ""}\n${text}`).toString(36).padStart(11, "0");
+    const occurrence = seen.get(baseId) ?? 0;
+    seen.set(baseId, occurrence + 1);
+    const redactedId = occurrence === 0 ? `c_${baseId}` : `c_${baseId}_${occurrence}`;
+    ids.set(id, redactedId);
+    originalIds.set(redactedId, id);
+    return redactedId;
+  };
+
+  const redacted = results.map((result) => ({
+    ...result,
+    comments: result.comments.map((comment) => {
+      const username = comment.username && pseudonymize(comment.username);
+      const text = redact(comment.text);
+      return {
+        ...comment,
+        id: redactId(comment.id, result.imageName, username, text),
+        username,
+        text,
+        translation: comment.translation && { ...comment.translation, text: redact(comment.translation.text) },
+      };
+    }),
+  }));
+
+  // A parent id missing from the results is dropped rather than leaking the
+  // original hash
+  for (const result of redacted) {
+    for (const comment of result.comments) {
+      if (comment.parentId) comment.parentId = ids.get(comment.parentId);
+    }
+  }
+
+  return { results: redacted, key, originalIds };
+}
+
+// Contents of the key file: everything needed to map pseudonyms back
+export function buildPrivacyKeyFile(salt: string, key: Map<string, string>): string {
+  return JSON.stringify(
+    {
+      createdAt: new Date().toISOString(),
+      salt,
+      pseudonyms: Object.fromEntries(key),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,180 @@
+import { INTENTS, SENTIMENTS } from "@/lib/labels";
+import { LANGUAGE_NAMES } from "@/lib/languages";
+import { PLATFORM_IDS, PLATFORM_LABELS, type PlatformId } from "@/lib/platforms";
+
+// Part of every result cache key. Bump it whenever a prompt or response
+// schema change alters what extraction returns, so results made with the old
+// prompts aren't served from the cache.
+export const PROMPT_VERSION = 1;
+
+const EXTRACTION_RULES = `You are an expert at extracting comments from social media screenshots, PDFs, and images containing comment threads.
+
+CRITICAL: Your ONLY job is to extract comments from this image. Return ONLY valid JSON - no explanations, no markdown formatting, just pure JSON.
+
+EXTRACTION RULES:
+1. Extract EVERY comment visible in the image - scan from top to bottom, left to right
+2. For each comment, extract:
+   - "text": The complete comment text (copy it exactly, don't summarize)
+   - "username": The username/handle if visible (omit if not visible)
+   - "timestamp": Time/date if visible (e.g., "2h", "1d", "3w ago", "Just now", "Dec 10, 2024")
+   - "likes": Like/reaction count if visible (e.g., "5", "12", "1.2K", "1.5K")
+   - "depth": Nesting level - 0 for a top-level comment, 1 for a reply to it, 2 for a reply to a reply (judge by indentation, reply lines and "Replying to" labels)
+   - "replyCount": If a "View N replies" / "N replies" / "Show more replies (N)" link is shown under the comment, the number N
+   - "badges": Labels shown on or next to the comment, if any (e.g. "pinned", "creator-heart", "verified", "author", "edited")
+   - "box": The region the comment occupies (username, text and action line) as fractions of the image size, measured from the top-left corner: {"x": left, "y": top, "width": ..., "height": ...}, each between 0 and 1
+   - "language": The ISO 639-1 code of the language the comment is written in (e.g. "en", "es", "ja")
+   - "confidence": How sure you are that you read this comment completely and correctly, from 0 to 1 (lower it for blurry, cut-off or overlapping text)
+   - "reactions": Only when separate counts per reaction are shown, one entry per reaction (e.g. [{"type": "like", "count": "12"}, {"type": "love", "count": "3"}])
+3. Include ALL comments - even partial ones, replies, nested comments - in the order they appear, so every reply comes after the comment it answers
+4. Don't skip any comments - be exhaustive
+5. Copy counts exactly as displayed (e.g. "1,2 k", "1.2万") - don't convert them
+6. If a field is not visible, simply omit it (don't include null)`;
+
+const OUTPUT_FORMAT = `REQUIRED OUTPUT FORMAT (JSON only, no markdown):
+{
+  "comments": [
+    {
+      "username": "user1",
+      "text": "This is the full comment text exactly as it appears",
+      "language": "en",
+      "timestamp": "2h",
+      "likes": "5",
+      "depth": 0,
+      "replyCount": 3,
+      "box": {"x": 0.05, "y": 0.12, "width": 0.9, "height": 0.1}
+    },
+    {
+      "username": "user2",
+      "text": "A reply to user1",
+      "timestamp": "1h",
+      "depth": 1,
+      "box": {"x": 0.12, "y": 0.23, "width": 0.83, "height": 0.07}
+    },
+    {
+      "text": "Another comment without username",
+      "timestamp": "1d",
+      "depth": 0,
+      "box": {"x": 0.05, "y": 0.31, "width": 0.9, "height": 0.06}
+    }
+  ]
+}
+
+Remember: Return ONLY the JSON object, nothing else. No markdown code blocks, no explanations.`;
+
+export const SYSTEM_PROMPT = `${EXTRACTION_RULES}
+
+${OUTPUT_FORMAT}`;
+
+// Insert platform-specific notes between the generic rules and the output
+// format, so the "Return ONLY the JSON" reminder stays last
+export function buildExtractionPrompt(platform: PlatformId, platformNotes?: string): string {
+  if (!platformNotes) {
+    return SYSTEM_PROMPT;
+  }
+
+  return `${EXTRACTION_RULES}
+
+${PLATFORM_LABELS[platform].toUpperCase()} NOTES:
+${platformNotes}
+
+${OUTPUT_FORMAT}`;
+}
+
+// For PDF pages read from their text layer: the same rules and output format,
+// with the page text in place of an image
+export function buildTextExtractionPrompt(pageText: string): string {
+  return `${EXTRACTION_RULES}
+
+TEXT SOURCE NOTES:
+- There is no image: the comments are given below as the text of a PDF page, e.g. an exported comment report
+- Use the layout of the text (names on their own line, indentation, "Reply" or "replied" labels) to tell authors, comments, timestamps and replies apart
+- Omit "box"; there is no image to measure
+
+PAGE TEXT:
+"""
+${pageText}
+"""
+
+${OUTPUT_FORMAT}`;
+}
+
+export const CLASSIFY_PROMPT = `Which social media platform is this screenshot of a comment section from?
+
+Answer with one of: ${PLATFORM_IDS.map((id) => `"${id}"`).join(", ")}. Use "generic" if you can't tell or it is none of these.
+
+Return ONLY a JSON object like {"platform": "reddit"}.`;
+
+export const CLASSIFY_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    platform: { type: "string", enum: PLATFORM_IDS },
+  },
+  required: ["platform"],
+};
+
+// Labels a batch of already extracted comments. Text-only: the comments are
+// sent as JSON lines, one per comment, keyed by id.
+export function buildEnrichmentPrompt(comments: Array<{ id: string; text: string }>, topics: string[]): string {
+  return `Label each of the social media comments below.
+
+For every comment give:
+- "sentiment": one of ${SENTIMENTS.map((value) => `"${value}"`).join(", ")}
+- "intent": one of ${INTENTS.map((value) => `"${value}"`).join(", ")} ("other" if none fit)
+- "topics": the topics from this list the comment is about, copied exactly; an empty array if none apply
+TOPICS: ${topics.length > 0 ? topics.join(", ") : "(none - always return an empty array)"}
+
+COMMENTS (one JSON object per line):
+${comments.map((comment) => JSON.stringify({ id: comment.id, text: comment.text })).join("\n")}
+
+Return ONLY a JSON object like {"labels": [{"id": "c_1", "sentiment": "positive", "intent": "praise", "topics": []}]} with one entry per comment, using the ids given.`;
+}
+
+export const ENRICHMENT_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    labels: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          sentiment: { type: "string", enum: SENTIMENTS },
+          intent: { type: "string", enum: INTENTS },
+          topics: { type: "array", items: { type: "string" } },
+        },
+        required: ["id", "sentiment", "intent", "topics"],
+      },
+    },
+  },
+  required: ["labels"],
+};
+
+// Translates a batch of already extracted comments into one language
+export function buildTranslationPrompt(comments: Array<{ id: string; text: string }>, language: string): string {
+  return `Translate each of the social media comments below into ${LANGUAGE_NAMES[language] ?? language}.
+
+Keep the tone, emoji, @mentions, #hashtags and URLs as they are. If a comment is already in ${LANGUAGE_NAMES[language] ?? language}, return its text unchanged.
+
+COMMENTS (one JSON object per line):
+${comments.map((comment) => JSON.stringify({ id: comment.id, text: comment.text })).join("\n")}
+
+Return ONLY a JSON object like {"translations": [{"id": "c_1", "text": "..."}]} with one entry per comment, using the ids given.`;
+}
+
+export const TRANSLATION_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    translations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          text: { type: "string" },
+        },
+        required: ["id", "text"],
+      },
+    },
+  },
+  required: ["translations"],
+};
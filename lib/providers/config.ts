@@ -0,0 +1,44 @@
+// Client-safe provider settings shared by the Settings card and the API route.
+// Keep SDK imports out of this file so it can be bundled for the browser.
+
+export type ProviderId = "gemini" | "openai" | "fixture";
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+export const PROVIDER_IDS: ProviderId[] = ["gemini", "openai", "fixture"];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible",
+  fixture: "Fixture (offline)",
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  fixture: "fixture-v1",
+};
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && (PROVIDER_IDS as string[]).includes(value);
+}
+
+// Whether a request must carry an API key for this provider. OpenAI-compatible
+// endpoints only need one when talking to the default (hosted) base URL.
+export function requiresApiKey(config: ProviderConfig): boolean {
+  switch (config.provider) {
+    case "gemini":
+      return true;
+    case "openai":
+      return !config.baseUrl;
+    case "fixture":
+      return false;
+  }
+}
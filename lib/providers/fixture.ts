@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { DEFAULT_MODELS } from "./config";
+import { INTENTS, SENTIMENTS, parseTopics } from "@/lib/labels";
+import type { CompletionRequest, ExtractionProvider, ExtractionRequest, ExtractionResponse } from "./types";
+
+// One to three comments derived from a digest of the source
+function fixtureComments(digest: string, sourceLabel: string, withBoxes: boolean) {
+  const count = (parseInt(digest.substring(0, 2), 16) % 3) + 1;
+
+  return Array.from({ length: count }, (_, i) => ({
+    username: `fixture_user_${digest.substring(i * 4, i * 4 + 4)}`,
+    text: `Fixture comment ${i + 1} for ${sourceLabel} ${digest.substring(0, 12)}`,
+    language: "en",
+    timestamp: `${i + 1}h`,
+    likes: String(parseInt(digest.substring(i * 2, i * 2 + 2), 16)),
+    // Every comment after the first replies to the first one
+    depth: i === 0 ? 0 : 1,
+    replyCount: i === 0 && count > 1 ? count - 1 : undefined,
+    // Spread over 0-1 so some comments land in the review queue
+    confidence: Math.round((parseInt(digest.substring(i * 2 + 8, i * 2 + 10), 16) / 255) * 100) / 100,
+    // Stacked top to bottom, replies indented
+    box: withBoxes
+      ? { x: i === 0 ? 0.05 : 0.12, y: 0.1 + i * 0.25, width: i === 0 ? 0.9 : 0.83, height: 0.2 }
+      : undefined,
+  }));
+}
+
+// Offline provider for tests and UI work: returns the same comments for the
+// same image bytes without any network access.
+export function createFixtureProvider(): ExtractionProvider {
+  return {
+    id: "fixture",
+    model: DEFAULT_MODELS.fixture,
+    async extract({ image, mimeType }: ExtractionRequest): Promise<ExtractionResponse> {
+      const digest = createHash("sha256").update(image).digest("hex");
+      const comments = fixtureComments(digest, `${mimeType} image`, true);
+      return { text: JSON.stringify({ comments }), comments };
+    },
+    // Answers the text-only prompts: PDF text pages get comments derived from
+    // the page text, translation prompts the text tagged with the target
+    // language, enrichment prompts labels derived from a hash of each comment id
+    async complete({ prompt }: CompletionRequest): Promise<ExtractionResponse> {
+      const pageText = prompt.match(/^PAGE TEXT:\n"""\n([\s\S]*?)\n"""$/m)?.[1];
+      if (pageText !== undefined) {
+        const digest = createHash("sha256").update(pageText).digest("hex");
+        const comments = fixtureComments(digest, "PDF text page", false);
+        return { text: JSON.stringify({ comments }), comments };
+      }
+
+      const items: Array<{ id: string; text: string }> = Array.from(
+        prompt.matchAll(/^\{"id":.*\}$/gm),
+        (match) => JSON.parse(match[0])
+      );
+
+      const targetLanguage = prompt.match(/^Translate each of the social media comments below into (.+)\.$/m)?.[1];
+      if (targetLanguage) {
+        const translations = items.map(({ id, text }) => ({ id, text: `[${targetLanguage}] ${text}` }));
+        return { text: JSON.stringify({ translations }) };
+      }
+
+      const topics = parseTopics(prompt.match(/^TOPICS: (.*)$/m)?.[1] ?? "");
+      const labels = items.map(({ id }) => {
+        const digest = createHash("sha256").update(id).digest();
+        return {
+          id,
+          sentiment: SENTIMENTS[digest[0] % SENTIMENTS.length],
+          intent: INTENTS[digest[1] % INTENTS.length],
+          topics: topics.length > 0 && digest[2] % 2 === 0 ? [topics[digest[3] % topics.length]] : [],
+        };
+      });
+
+      return { text: JSON.stringify({ labels }) };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { ApiError, GoogleGenAI, type Part } from "@google/genai";
+import { DEFAULT_MODELS } from "./config";
+import {
+  ProviderError,
+  type CompletionRequest,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from "./types";
+
+// Gemini reports quota back-off in the error body as RetryInfo, e.g. "retryDelay": "17s"
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_MODELS.gemini): ExtractionProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (parts: Part[], responseSchema?: object): Promise<ExtractionResponse> => {
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts }],
+        config: responseSchema
+          ? { responseMimeType: "application/json", responseJsonSchema: responseSchema }
+          : undefined,
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ProviderError(error.message, error.status, parseRetryDelay(error.message));
+      }
+      throw error;
+    }
+
+    return { text: response.text ?? "" };
+  };
+
+  return {
+    id: "gemini",
+    model,
+    extract({ image, mimeType, prompt, responseSchema }: ExtractionRequest): Promise<ExtractionResponse> {
+      return generate(
+        [{ inlineData: { mimeType, data: image.toString("base64") } }, { text: prompt }],
+        responseSchema
+      );
+    },
+    complete({ prompt, responseSchema }: CompletionRequest): Promise<ExtractionResponse> {
+      return generate([{ text: prompt }], responseSchema);
+    },
+  };
+}
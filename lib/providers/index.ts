@@ -0,0 +1,22 @@
+import type { ProviderConfig } from "./config";
+import { createFixtureProvider } from "./fixture";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import type { ExtractionProvider } from "./types";
+
+export * from "./config";
+export { ProviderError } from "./types";
+export type { CompletionRequest, ExtractionProvider, ExtractionRequest, ExtractionResponse } from "./types";
+
+export function createProvider(config: ProviderConfig): ExtractionProvider {
+  const model = config.model || undefined;
+
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiProvider(config.apiKey ?? "", model);
+    case "openai":
+      return createOpenAICompatibleProvider(config.apiKey, model, config.baseUrl || undefined);
+    case "fixture":
+      return createFixtureProvider();
+  }
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from "./config";
+import {
+  ProviderError,
+  type CompletionRequest,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from "./types";
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.ceil(seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// Works with any server that implements the /chat/completions endpoint with
+// image_url content parts (OpenAI, OpenRouter, vLLM, LM Studio, Ollama, ...)
+export function createOpenAICompatibleProvider(
+  apiKey: string | undefined,
+  model = DEFAULT_MODELS.openai,
+  baseUrl = DEFAULT_OPENAI_BASE_URL
+): ExtractionProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const chat = async (content: unknown[], responseSchema?: object): Promise<ExtractionResponse> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content }],
+        ...(responseSchema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "comment_extraction", schema: responseSchema },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ProviderError(
+        `${endpoint} returned ${response.status}: ${body.substring(0, 200)}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    const data = await response.json();
+    const message = data?.choices?.[0]?.message?.content;
+    // Some servers return content as an array of parts instead of a string
+    const text = Array.isArray(message)
+      ? message.map((part: { text?: string } | null) => part?.text ?? "").join("")
+      : message ?? "";
+
+    return { text };
+  };
+
+  return {
+    id: "openai",
+    model,
+    extract({ image, mimeType, prompt, responseSchema }: ExtractionRequest): Promise<ExtractionResponse> {
+      return chat(
+        [
+          { type: "text", text: prompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:${mimeType};base64,${image.toString("base64")}` },
+          },
+        ],
+        responseSchema
+      );
+    },
+    complete({ prompt, responseSchema }: CompletionRequest): Promise<ExtractionResponse> {
+      return chat([{ type: "text", text: prompt }], responseSchema);
+    },
+  };
+}
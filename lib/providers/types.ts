@@ -0,0 +1,43 @@
+import type { RawComment } from "@/lib/types";
+import type { ProviderId } from "./config";
+
+export interface ExtractionRequest {
+  image: Buffer;
+  mimeType: string;
+  prompt: string;
+  // JSON Schema the reply must follow, for providers that can enforce one
+  responseSchema?: object;
+}
+
+// A text-only call, used for passes over already extracted comments
+export interface CompletionRequest {
+  prompt: string;
+  responseSchema?: object;
+}
+
+export interface ExtractionResponse {
+  // Raw model output, kept for the rawResponse field and for debugging
+  text: string;
+  // Set by providers that return comments without going through the JSON parser
+  comments?: RawComment[];
+}
+
+export interface ExtractionProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  extract(request: ExtractionRequest): Promise<ExtractionResponse>;
+  complete(request: CompletionRequest): Promise<ExtractionResponse>;
+}
+
+// Thrown by providers for HTTP-level failures so callers can decide whether
+// to retry without knowing each vendor's error shape.
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { ProcessedComment } from "@/lib/types";
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+// What a cache entry holds: the extraction output only, nothing that belongs
+// to the upload it came from (name, position, capture time, preprocessing)
+export type CachedExtraction = Pick<
+  ProcessedComment,
+  "status" | "platform" | "pageSource" | "parsePath" | "comments" | "rawResponse" | "tiles"
+>;
+
+export function toCachedExtraction({
+  status,
+  platform,
+  pageSource,
+  parsePath,
+  comments,
+  rawResponse,
+  tiles,
+}: CachedExtraction): CachedExtraction {
+  return { status, platform, pageSource, parsePath, comments, rawResponse, tiles };
+}
+
+// Extraction results stored by content hash, so re-uploading the same
+// screenshot or PDF page doesn't pay for another model call
+export interface ResultCache {
+  get(key: string): Promise<CachedExtraction | undefined>;
+  // Logs and swallows write failures, which only cost the entry
+  set(key: string, extraction: CachedExtraction): Promise<void>;
+}
+
+// Key for one image or PDF page: its bytes or text, plus everything that
+// changes what extraction returns for it (prompt version, provider, model,
+// platform and enrichment settings)
+export function resultCacheKey(content: Buffer | string, context: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(context)).update("\n").update(content).digest("hex");
+}
+
+// One JSON file per result under `directory`, fanned out by the first two
+// hex digits of the key. Writes go through a temp file so a reader never
+// sees half an entry; unreadable entries count as misses.
+export function createFileResultCache(directory: string): ResultCache {
+  const entryPath = (key: string) => {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(directory, key.substring(0, 2), `${key}.json`);
+  };
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(entryPath(key), "utf8")) as CachedExtraction;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Ignoring unreadable cache entry ${key}:`, (error as Error).message);
+        }
+        return undefined;
+      }
+    },
+    async set(key, extraction) {
+      try {
+        const target = entryPath(key);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(temp, JSON.stringify(extraction));
+        await fs.rename(temp, target);
+      } catch (error) {
+        // A full disk or read-only deployment shouldn't fail the extraction
+        console.error(`Failed to write cache entry ${key}:`, (error as Error).message);
+      }
+    },
+  };
+}
+
+// RESULT_CACHE=off disables the cache; otherwise results are kept under
+// RESULT_CACHE_DIR (default ./.cache/results).
+export function getResultCache(): ResultCache | null {
+  if (process.env.RESULT_CACHE === "off") {
+    return null;
+  }
+  return ((globalThis as typeof globalThis & { __commentExtractorResultCache?: ResultCache })
+    .__commentExtractorResultCache ??= createFileResultCache(
+    process.env.RESULT_CACHE_DIR || path.join(process.cwd(), ".cache", "results")
+  ));
+}
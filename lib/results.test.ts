@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { splitMatches } from "@/lib/results";
+
+describe("splitMatches", () => {
+  it("returns the text whole for an empty query", () => {
+    expect(splitMatches("Hello", "  ")).toEqual(["Hello"]);
+  });
+
+  it("matches case-insensitively and keeps the original casing", () => {
+    expect(splitMatches("Hello hello HELLO", "hello")).toEqual(["", "Hello", " ", "hello", " ", "HELLO", ""]);
+  });
+
+  it("treats the query as plain text", () => {
+    expect(splitMatches("1+1 (a.b)", "(a.b)")).toEqual(["1+1 ", "(a.b)", ""]);
+    expect(splitMatches("axb", "a.b")).toEqual(["axb"]);
+  });
+
+  it("keeps match positions when lowercasing would change the length", () => {
+    expect(splitMatches("İstanbul cafe", "cafe")).toEqual(["İstanbul ", "cafe", ""]);
+  });
+});
@@ -0,0 +1,151 @@
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+import { engagementOf } from "@/lib/counts";
+
+// Sort results back into upload order: by file, then by PDF page
+export function compareSourceOrder(a: ProcessedComment, b: ProcessedComment): number {
+  return a.fileIndex - b.fileIndex || (a.pageNumber ?? 0) - (b.pageNumber ?? 0);
+}
+
+export type CommentSort = "source" | "engagement" | "time";
+
+// Higher sorts first. Comments without a usable timestamp go last.
+function sortScore(comment: ExtractedComment, sort: CommentSort): number {
+  if (sort === "engagement") return engagementOf(comment);
+  const time = comment.timestampNormalized ? Date.parse(comment.timestampNormalized.iso) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+// Order top-level threads by engagement or recency, highest or newest first,
+// keeping each reply directly under its parent in source order
+export function sortThreads<T extends ExtractedComment>(comments: T[], sort: CommentSort): T[] {
+  if (sort === "source") return comments;
+
+  const ids = new Set(comments.map((comment) => comment.id));
+  const children = new Map<string, T[]>();
+  const roots: T[] = [];
+  for (const comment of comments) {
+    if (comment.parentId && ids.has(comment.parentId)) {
+      const siblings = children.get(comment.parentId) ?? [];
+      siblings.push(comment);
+      children.set(comment.parentId, siblings);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const sorted: T[] = [];
+  const visit = (comment: T) => {
+    sorted.push(comment);
+    children.get(comment.id)?.forEach(visit);
+  };
+  roots
+    .map((comment, index) => ({ comment, index, score: sortScore(comment, sort) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .forEach(({ comment }) => visit(comment));
+  return sorted;
+}
+
+// Sort single comments, ignoring threads, for the flat table. Ties keep
+// source order.
+export function sortComments<T extends ExtractedComment>(comments: T[], sort: CommentSort): T[] {
+  if (sort === "source") return comments;
+  return comments
+    .map((comment, index) => ({ comment, index, score: sortScore(comment, sort) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ comment }) => comment);
+}
+
+// Filters from the Results toolbar; empty values don't filter
+export interface CommentFilters {
+  // Case-insensitive text searched in comment text, username and translation
+  query: string;
+  // Case-insensitive part of a username
+  username: string;
+  // resultKey of the one image to show; image names can repeat
+  resultKey: string;
+  hasLikes: boolean;
+  // datetime-local values, compared with each comment's normalized timestamp
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTERS: CommentFilters = {
+  query: "",
+  username: "",
+  resultKey: "",
+  hasLikes: false,
+  from: "",
+  to: "",
+};
+
+export function hasActiveFilters(filters: CommentFilters): boolean {
+  return (Object.keys(EMPTY_FILTERS) as Array<keyof CommentFilters>).some(
+    (key) => filters[key] !== EMPTY_FILTERS[key]
+  );
+}
+
+export function matchesFilters(comment: ExtractedComment, resultKey: string, filters: CommentFilters): boolean {
+  if (filters.resultKey && resultKey !== filters.resultKey) return false;
+
+  const query = filters.query.trim().toLowerCase();
+  if (
+    query &&
+    ![comment.text, comment.username, comment.translation?.text].some((field) =>
+      field?.toLowerCase().includes(query)
+    )
+  ) {
+    return false;
+  }
+
+  const username = filters.username.trim().toLowerCase().replace(/^@/, "");
+  if (username && !comment.username?.toLowerCase().includes(username)) return false;
+
+  if (filters.hasLikes && engagementOf(comment) <= 0) return false;
+
+  if (filters.from || filters.to) {
+    // Coarse timestamps match when any part of their range is inside
+    const timestamp = comment.timestampNormalized;
+    if (!timestamp) return false;
+    const start = Date.parse(timestamp.rangeStart ?? timestamp.iso);
+    const end = Date.parse(timestamp.rangeEnd ?? timestamp.iso);
+    // datetime-local values have no zone; Date parses them as local time
+    if (filters.from && end < new Date(filters.from).getTime()) return false;
+    if (filters.to && start > new Date(filters.to).getTime()) return false;
+  }
+
+  return true;
+}
+
+// Label chips are keyed "sentiment:positive", "intent:question",
+// "topic:pricing". Chips of the same kind are alternatives; different kinds
+// must all match.
+export function matchesLabelFilters(comment: ExtractedComment, labelFilters: Set<string>): boolean {
+  if (labelFilters.size === 0) return true;
+  if (!comment.labels) return false;
+  const commentKeys = new Set([
+    `sentiment:${comment.labels.sentiment}`,
+    `intent:${comment.labels.intent}`,
+    ...comment.labels.topics.map((topic) => `topic:${topic}`),
+  ]);
+  const selectedKinds = new Set(Array.from(labelFilters, (key) => key.split(":")[0]));
+  return Array.from(selectedKinds).every((kind) =>
+    Array.from(labelFilters).some((key) => key.startsWith(`${kind}:`) && commentKeys.has(key))
+  );
+}
+
+// Split `text` into alternating plain and matching parts for highlighting
+// search hits; odd indexes are the matches. Matched case-insensitively on the
+// original text, since lowercasing can change a string's length ("İ").
+export function splitMatches(text: string, query: string): string[] {
+  const needle = query.trim();
+  if (!needle) return [text];
+  const pattern = new RegExp(needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+  const parts: string[] = [];
+  let position = 0;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    parts.push(text.substring(position, match.index), match[0]);
+    position = match.index + match[0].length;
+  }
+  parts.push(text.substring(position));
+  return parts;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { ProviderError } from "@/lib/providers/types";
+import { backoffDelay, isRetryableError, withRetry, type RetryOptions } from "@/lib/retry";
+
+// Short waits so retries don't slow the suite down
+const fast: RetryOptions = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 20 };
+
+// A function failing with each error in turn, then resolving with "ok"
+const failing = (...errors: unknown[]) => {
+  let calls = 0;
+  return vi.fn(async () => {
+    if (calls < errors.length) throw errors[calls++];
+    return "ok";
+  });
+};
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server errors and network failures", () => {
+    expect(isRetryableError(new ProviderError("slow down", 429))).toBe(true);
+    expect(isRetryableError(new ProviderError("unavailable", 503))).toBe(true);
+    expect(isRetryableError(new ProviderError("no status"))).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  it("gives up on client errors and anything else", () => {
+    expect(isRetryableError(new ProviderError("bad key", 401))).toBe(false);
+    expect(isRetryableError(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays under the exponential ceiling and maxDelayMs", () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const delay = backoffDelay(attempt, { baseDelayMs: 100, maxDelayMs: 1000 });
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * 2 ** attempt));
+    }
+  });
+});
+
+describe("withRetry", () => {
+  it("counts the retries it took", async () => {
+    const fn = failing(new ProviderError("busy", 503), new ProviderError("busy", 503));
+    const onRetry = vi.fn();
+    await expect(withRetry(fn, { ...fast, onRetry })).resolves.toEqual({ value: "ok", retries: 2 });
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it("rethrows errors that aren't retryable straight away", async () => {
+    const error = new ProviderError("bad key", 401);
+    const fn = failing(error);
+    await expect(withRetry(fn, fast)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the last error once retries run out", async () => {
+    const fn = failing(...Array.from({ length: 5 }, (_, index) => new ProviderError(`busy ${index}`, 503)));
+    await expect(withRetry(fn, fast)).rejects.toThrow("busy 3");
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it("gives up when the server asks for a longer wait than maxDelayMs", async () => {
+    const fn = failing(new ProviderError("slow down", 429, 60_000));
+    await expect(withRetry(fn, fast)).rejects.toThrow("slow down");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares a rate-limit hint through the cooldown", async () => {
+    const cooldown = { until: 0 };
+    const before = Date.now();
+    await withRetry(failing(new ProviderError("slow down", 429, 10)), { ...fast, cooldown });
+    expect(cooldown.until).toBeGreaterThanOrEqual(before + 10);
+  });
+
+  it("stops retrying once aborted", async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async () => {
+      controller.abort();
+      throw new ProviderError("busy", 503);
+    });
+    await expect(withRetry(fn, { ...fast, signal: controller.signal })).rejects.toThrow("busy");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { ProviderError } from "@/lib/providers/types";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Shared between concurrent callers: a rate-limit hint seen by one worker
+  // holds back every worker until it expires instead of each finding out alone
+  cooldown?: { until: number };
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  // Cuts waits short and stops retrying once aborted
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.status === undefined || RETRYABLE_STATUSES.has(error.status);
+  }
+  // fetch() network failures surface as TypeError("fetch failed")
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+// Full-jitter exponential backoff, see
+// https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+export function backoffDelay(attempt: number, options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Resolves after `ms`, or as soon as `signal` is aborted
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+// Run `fn`, retrying retryable errors. Resolves with the value and how many
+// retries it took; rethrows the last error once retries are exhausted, the
+// server asks for a longer wait than maxDelayMs, or `signal` is aborted.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<{ value: T; retries: number }> {
+  for (let attempt = 0; ; attempt++) {
+    const cooldownMs = options.cooldown ? options.cooldown.until - Date.now() : 0;
+    if (cooldownMs > 0) {
+      await sleep(cooldownMs, options.signal);
+      options.signal?.throwIfAborted();
+    }
+
+    try {
+      return { value: await fn(), retries: attempt };
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error) || options.signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+        throw error;
+      }
+
+      const delayMs = Math.max(retryAfterMs ?? 0, backoffDelay(attempt, options));
+      if (retryAfterMs !== undefined && options.cooldown) {
+        options.cooldown.until = Math.max(options.cooldown.until, Date.now() + retryAfterMs);
+      }
+
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
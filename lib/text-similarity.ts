@@ -0,0 +1,67 @@
+// Fuzzy text comparison used to recognise the same comment in two captures.
+// OCR-ish differences (punctuation, case, emoji rendering, wrapped lines)
+// shouldn't matter, so everything works on a normalized form.
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKC")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function normalizeUsername(username: string | undefined): string | undefined {
+  const normalized = username?.trim().replace(/^@/, "").toLowerCase();
+  return normalized || undefined;
+}
+
+// Usernames are compatible when they match or when one side didn't capture
+// one (e.g. the header scrolled out of view)
+export function usernamesCompatible(a: string | undefined, b: string | undefined): boolean {
+  const left = normalizeUsername(a);
+  const right = normalizeUsername(b);
+  return !left || !right || left === right;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.substring(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Sørensen–Dice coefficient over character bigrams of the normalized texts,
+// from 0 (nothing in common) to 1 (identical)
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let shared = 0;
+  leftGrams.forEach((count, gram) => {
+    shared += Math.min(count, rightGrams.get(gram) ?? 0);
+  });
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+// Length of the longest run of whole words that ends `a` and starts `b`,
+// compared on normalized text. Used to spot a comment cut in two at an image
+// edge.
+export function suffixPrefixOverlap(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  const max = Math.min(left.length, right.length);
+  for (let length = max; length > 0; length--) {
+    const atWordEnd = length === right.length || right[length] === " ";
+    const atWordStart = length === left.length || left[left.length - length - 1] === " ";
+    if (atWordEnd && atWordStart && left.endsWith(right.substring(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { assignThreads } from "@/lib/threading";
+
+// The [depth, parent index] of each threaded comment, with -1 for no parent
+const shape = (comments: ReturnType<typeof assignThreads>) =>
+  comments.map((comment) => [comment.depth, comments.findIndex((other) => other.id === comment.parentId)]);
+
+describe("assignThreads", () => {
+  it("links replies to the nearest earlier comment one level up", () => {
+    const threaded = assignThreads(
+      [
+        { text: "a" },
+        { text: "a.1", depth: 1 },
+        { text: "a.1.1", depth: 2 },
+        { text: "a.2", depth: 1 },
+        { text: "b", depth: 0 },
+        { text: "b.1", depth: 1 },
+      ],
+      "shot.png"
+    );
+    expect(shape(threaded)).toEqual([
+      [0, -1],
+      [1, 0],
+      [2, 1],
+      [1, 0],
+      [0, -1],
+      [1, 4],
+    ]);
+  });
+
+  it("pulls replies nested too deep back under the comment before them", () => {
+    const threaded = assignThreads([{ text: "a" }, { text: "a.1", depth: 3 }], "shot.png");
+    expect(shape(threaded)).toEqual([
+      [0, -1],
+      [1, 0],
+    ]);
+  });
+
+  it("keeps the depth of a leading reply whose parent was cut off", () => {
+    const threaded = assignThreads([{ text: "orphan", depth: 1 }, { text: "sibling", depth: 1 }], "shot.png");
+    expect(shape(threaded)).toEqual([
+      [1, -1],
+      [1, -1],
+    ]);
+  });
+
+  it("gives the same screenshot the same ids and suffixes repeats", () => {
+    const comments = [
+      { username: "alice", text: "+1" },
+      { username: "alice", text: "+1" },
+    ];
+    const first = assignThreads(comments, "shot.png");
+    expect(assignThreads(comments, "shot.png").map((comment) => comment.id)).toEqual(first.map((comment) => comment.id));
+    expect(first[0].id).toMatch(/^c_[0-9a-f]{12}$/);
+    expect(first[1].id).toBe(`${first[0].id}_1`);
+    expect(assignThreads(comments, "other.png")[0].id).not.toBe(first[0].id);
+  });
+});
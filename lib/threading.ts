@@ -0,0 +1,36 @@
+import { createHash } from "crypto";
+import type { ExtractedComment, RawComment } from "@/lib/types";
+
+// Give each comment a stable id and link replies to their parents using the
+// depth the model reported. Comments are assumed to be in on-screen order, so
+// a comment's parent is the nearest earlier comment one level shallower.
+//
+// Ids hash the image name, username and text, so re-extracting the same
+// screenshot yields the same ids; repeats within one image get a suffix.
+export function assignThreads(comments: RawComment[], imageName: string): ExtractedComment[] {
+  const seen = new Map<string, number>();
+  // ancestors[d] is the id of the latest comment at depth d
+  const ancestors: string[] = [];
+
+  return comments.map((comment) => {
+    const baseId = createHash("sha1")
+      .update(`${imageName}\n${comment.username ?? ""}\n${comment.text}`)
+      .digest("hex")
+      .substring(0, 12);
+    const occurrence = seen.get(baseId) ?? 0;
+    seen.set(baseId, occurrence + 1);
+    const id = occurrence === 0 ? `c_${baseId}` : `c_${baseId}_${occurrence}`;
+
+    // A reply can't be nested deeper than one level below the comment before
+    // it; the first comment in an image may itself be a reply whose parent
+    // was cut off, in which case it keeps its depth but gets no parent.
+    const reportedDepth = comment.depth ?? 0;
+    const depth = ancestors.length === 0 ? reportedDepth : Math.min(reportedDepth, ancestors.length);
+    const parentId = depth > 0 ? ancestors[depth - 1] : undefined;
+
+    ancestors.length = Math.min(ancestors.length, depth);
+    ancestors[depth] = id;
+
+    return { ...comment, id, parentId, depth };
+  });
+}
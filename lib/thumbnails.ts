@@ -0,0 +1,20 @@
+// Browser-only: shrink an image file to a JPEG data URL for embedding in
+// exports. Tall screenshots keep their full height up to MAX_HEIGHT.
+const MAX_WIDTH = 320;
+const MAX_HEIGHT = 2400;
+
+// Resolves to null for files the browser can't decode, such as HEIC
+export async function createThumbnail(file: File): Promise<string | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_WIDTH / bitmap.width, MAX_HEIGHT / bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { mergeTileResults, planTiles } from "@/lib/tiling";
+import type { ExtractedComment, ProcessedComment } from "@/lib/types";
+
+const tileResult = (imageName: string, comments: ExtractedComment[]): ProcessedComment => ({
+  imageName,
+  fileIndex: 0,
+  status: "succeeded",
+  comments,
+  rawResponse: "",
+});
+
+describe("planTiles", () => {
+  it("sends images up to a little over one tile whole", () => {
+    // Tiles of a 1000px wide capture are 2000px tall
+    expect(planTiles(1000, 2500)).toBeNull();
+    // Narrow captures still get 1200px tiles
+    expect(planTiles(300, 1500)).toBeNull();
+  });
+
+  it("overlaps tiles and aligns the last one with the bottom edge", () => {
+    expect(planTiles(1000, 5000)).toEqual([
+      { top: 0, height: 2000 },
+      { top: 1700, height: 2000 },
+      { top: 3000, height: 2000 },
+    ]);
+    expect(planTiles(300, 2000)).toEqual([
+      { top: 0, height: 1200 },
+      { top: 800, height: 1200 },
+    ]);
+  });
+
+  it("covers every row of the image", () => {
+    const height = 12_345;
+    const tiles = planTiles(800, height) ?? [];
+    expect(tiles[0].top).toBe(0);
+    for (let index = 1; index < tiles.length; index++) {
+      expect(tiles[index].top).toBeLessThan(tiles[index - 1].top + tiles[index - 1].height);
+    }
+    expect(tiles[tiles.length - 1].top + tiles[tiles.length - 1].height).toBe(height);
+  });
+});
+
+describe("mergeTileResults", () => {
+  it("maps boxes onto the whole image and folds comments repeated in the overlap", () => {
+    const tiles = [
+      { top: 0, height: 2000 },
+      { top: 1700, height: 2000 },
+    ];
+    const repeated = "Saving this for later, such a useful thread";
+    const merged = mergeTileResults(
+      [
+        tileResult("shot.png#1", [
+          { id: "t1a", depth: 0, username: "alice", text: "First!", box: { x: 0, y: 0.1, width: 1, height: 0.05 } },
+          { id: "t1b", depth: 0, username: "bob", text: repeated, box: { x: 0, y: 0.9, width: 1, height: 0.05 } },
+        ]),
+        tileResult("shot.png#2", [
+          { id: "t2a", depth: 0, username: "bob", text: repeated, box: { x: 0, y: 0.05, width: 1, height: 0.05 } },
+          { id: "t2b", depth: 1, username: "carol", text: "Same", box: { x: 0.1, y: 0.5, width: 0.9, height: 0.05 } },
+        ]),
+      ],
+      tiles,
+      3700,
+      "shot.png"
+    );
+
+    expect(merged.map((comment) => comment.text)).toEqual(["First!", repeated, "Same"]);
+    expect(merged[2].box?.y).toBeCloseTo(2700 / 3700);
+    expect(merged[2].box?.height).toBeCloseTo(100 / 3700);
+    expect(merged[2].parentId).toBe(merged[1].id);
+    expect(merged[0]).not.toHaveProperty("seenIn");
+    expect(merged[0].id).toMatch(/^c_/);
+  });
+});
@@ -0,0 +1,119 @@
+import { loadCanvasModule, loadSharpModule } from "@/lib/optional-modules";
+import { readImageSize } from "@/lib/image-size";
+import { mergeOverlappingResults } from "@/lib/merge";
+import { assignThreads } from "@/lib/threading";
+import type { BoundingBox, ExtractedComment, ProcessedComment } from "@/lib/types";
+
+// Tiles are at most this many times taller than they are wide, which models
+// still read reliably. Very narrow captures get at least MIN_TILE_HEIGHT.
+const TILE_ASPECT = 2;
+const MIN_TILE_HEIGHT = 1200;
+// Fraction of each tile repeated at the top of the next, so a comment cut by
+// one tile edge is whole in a neighbouring tile
+const TILE_OVERLAP = 0.15;
+// Images only slightly taller than one tile are sent whole
+const TILING_SLACK = 1.25;
+// Tiles of JPEG screenshots are re-encoded close to their source quality
+const JPEG_TILE_QUALITY = 92;
+
+export interface Tile {
+  top: number;
+  height: number;
+}
+
+// Vertical tiles covering an image of the given size, or null when the image
+// is short enough to send whole
+export function planTiles(width: number, height: number): Tile[] | null {
+  const tileHeight = Math.max(Math.round(width * TILE_ASPECT), MIN_TILE_HEIGHT);
+  if (height <= tileHeight * TILING_SLACK) return null;
+
+  const step = Math.round(tileHeight * (1 - TILE_OVERLAP));
+  const tiles: Tile[] = [];
+  for (let top = 0; ; top += step) {
+    if (top + tileHeight >= height) {
+      // Align the last tile with the bottom edge instead of leaving a sliver
+      tiles.push({ top: Math.max(height - tileHeight, 0), height: Math.min(tileHeight, height) });
+      break;
+    }
+    tiles.push({ top, height: tileHeight });
+  }
+  return tiles;
+}
+
+// Split a tall screenshot into overlapping tiles, JPEG for JPEG originals and
+// PNG for everything else. Tiles are cut with sharp, or with canvas when only
+// that is installed. Returns null when the image doesn't need tiling, its size
+// can't be read, or neither package is installed; the caller then sends the
+// image whole.
+export async function splitIntoTiles(
+  image: Buffer,
+  mimeType: string
+): Promise<{ width: number; height: number; tiles: Array<Tile & { image: Buffer; mimeType: string }> } | null> {
+  const size = readImageSize(image);
+  const plan = size && planTiles(size.width, size.height);
+  if (!size || !plan) return null;
+  const tileMimeType = mimeType === "image/jpeg" ? "image/jpeg" : "image/png";
+
+  const sharp = loadSharpModule();
+  if (sharp) {
+    const tiles = await Promise.all(
+      plan.map(async (tile) => {
+        const cropped = sharp(image).extract({ left: 0, top: tile.top, width: size.width, height: tile.height });
+        const encoded = tileMimeType === "image/jpeg" ? cropped.jpeg({ quality: JPEG_TILE_QUALITY }) : cropped.png();
+        return { ...tile, image: await encoded.toBuffer(), mimeType: tileMimeType };
+      })
+    );
+    return { ...size, tiles };
+  }
+
+  const canvasModule = loadCanvasModule();
+  if (!canvasModule) return null;
+
+  const source = await canvasModule.loadImage(image);
+  const tiles = plan.map((tile) => {
+    const canvas = canvasModule.createCanvas(size.width, tile.height);
+    canvas
+      .getContext("2d")
+      .drawImage(source, 0, tile.top, size.width, tile.height, 0, 0, size.width, tile.height);
+    const encoded =
+      tileMimeType === "image/jpeg"
+        ? canvas.toBuffer("image/jpeg", { quality: JPEG_TILE_QUALITY / 100 })
+        : canvas.toBuffer("image/png");
+    return { ...tile, image: encoded, mimeType: tileMimeType };
+  });
+
+  return { ...size, tiles };
+}
+
+// Map a box measured on a tile to the whole image
+function toImageBox(box: BoundingBox, tile: Tile, imageHeight: number): BoundingBox {
+  return {
+    x: box.x,
+    y: (tile.top + box.y * tile.height) / imageHeight,
+    width: box.width,
+    height: (box.height * tile.height) / imageHeight,
+  };
+}
+
+// Combine the per-tile results of one image into a single comment list in
+// reading order. Comments repeated in the overlap are folded together by the
+// scroll-capture merge, then ids and reply links are assigned again as if the
+// image had been extracted whole.
+export function mergeTileResults(
+  tileResults: ProcessedComment[],
+  tiles: Tile[],
+  imageHeight: number,
+  imageName: string
+): ExtractedComment[] {
+  const positioned = tileResults.map((result, index) => ({
+    ...result,
+    comments: result.comments.map((comment) =>
+      comment.box ? { ...comment, box: toImageBox(comment.box, tiles[index], imageHeight) } : comment
+    ),
+  }));
+
+  const merged = mergeOverlappingResults(positioned).map(
+    ({ imageName: _tile, seenIn: _seenIn, id: _id, parentId: _parentId, ...comment }) => comment
+  );
+  return assignThreads(merged, imageName);
+}
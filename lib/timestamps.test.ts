@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { formatTimestampRange, normalizeTimestamp } from "@/lib/timestamps";
+
+const reference = new Date("2024-12-15T12:00:00Z");
+const at = (raw: string, timezoneOffset?: number) => normalizeTimestamp(raw, { reference, timezoneOffset });
+
+describe("normalizeTimestamp", () => {
+  it("resolves fine-grained relative times to a single instant", () => {
+    expect(at("Just now")).toEqual({ iso: "2024-12-15T12:00:00.000Z" });
+    expect(at("2h")).toEqual({ iso: "2024-12-15T10:00:00.000Z" });
+    expect(at("45 mins ago")).toEqual({ iso: "2024-12-15T11:15:00.000Z" });
+  });
+
+  it("reads coarse relative times as the range platforms round down from", () => {
+    expect(at("3w ago")).toMatchObject({
+      rangeStart: "2024-11-17T12:00:00.000Z",
+      rangeEnd: "2024-11-24T12:00:00.000Z",
+    });
+    expect(at("a year ago · edited")).toMatchObject({
+      rangeStart: "2022-12-15T12:00:00.000Z",
+      rangeEnd: "2023-12-15T12:00:00.000Z",
+    });
+  });
+
+  it("places day words and times in the user's timezone", () => {
+    // UTC-5: the capture was taken at 07:00 local time
+    expect(at("Yesterday at 3:45 PM", 300)).toEqual({ iso: "2024-12-14T20:45:00.000Z" });
+    expect(at("Today", 300)).toMatchObject({
+      rangeStart: "2024-12-15T05:00:00.000Z",
+      rangeEnd: "2024-12-16T04:59:59.999Z",
+    });
+  });
+
+  it("covers the whole day for a bare date", () => {
+    const day = { rangeStart: "2024-12-10T00:00:00.000Z", rangeEnd: "2024-12-10T23:59:59.999Z" };
+    expect(at("Dec 10, 2024")).toMatchObject(day);
+    expect(at("10 December 2024")).toMatchObject(day);
+    expect(at("2024-12-10")).toMatchObject(day);
+    expect(at("12/10/24")).toMatchObject(day);
+  });
+
+  it("swaps day and month when the month can't come first", () => {
+    expect(at("13/12/2024")).toMatchObject({ rangeStart: "2024-12-13T00:00:00.000Z" });
+  });
+
+  it("takes dates without a year as the latest one not after the capture", () => {
+    expect(at("Dec 10")).toMatchObject({ rangeStart: "2024-12-10T00:00:00.000Z" });
+    expect(at("Dec 20")).toMatchObject({ rangeStart: "2023-12-20T00:00:00.000Z" });
+  });
+
+  it("passes full ISO datetimes through", () => {
+    expect(at("2024-12-10T15:45:00Z")).toEqual({ iso: "2024-12-10T15:45:00.000Z" });
+  });
+
+  it("returns null for anything it can't read", () => {
+    expect(at("")).toBeNull();
+    expect(at("edited")).toBeNull();
+    expect(at("3 fortnights")).toBeNull();
+    expect(at("Smarch 3")).toBeNull();
+  });
+});
+
+describe("formatTimestampRange", () => {
+  it("writes ranges in interval notation and skips instants", () => {
+    expect(formatTimestampRange(at("Dec 10, 2024") ?? undefined)).toBe(
+      "2024-12-10T00:00:00.000Z/2024-12-10T23:59:59.999Z"
+    );
+    expect(formatTimestampRange(at("2h") ?? undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,198 @@
+// Turn the timestamp text shown next to a comment ("2h", "3w ago", "Just now",
+// "Dec 10, 2024") into ISO-8601 datetimes, relative to when the screenshot
+// was captured. Coarse values become ranges: "3w" means somewhere between
+// three and four weeks before capture, and a bare date covers the whole day.
+
+export interface NormalizedTimestamp {
+  // Best single estimate (the middle of the range for coarse values)
+  iso: string;
+  // Earliest and latest possible time, for values coarser than an hour
+  rangeStart?: string;
+  rangeEnd?: string;
+}
+
+export interface TimestampContext {
+  // When the screenshot was taken
+  reference: Date;
+  // Minutes to add to local time to get UTC, as returned by
+  // Date.getTimezoneOffset() in the user's browser. Used to place calendar
+  // dates ("Dec 10", "Yesterday") on the right day.
+  timezoneOffset?: number;
+}
+
+type Unit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+const UNIT_ALIASES: Record<string, Unit> = {
+  s: "second", sec: "second", secs: "second", second: "second", seconds: "second",
+  m: "minute", min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+  h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+  d: "day", day: "day", days: "day",
+  w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+  mo: "month", mos: "month", mon: "month", month: "month", months: "month",
+  y: "year", yr: "year", yrs: "year", year: "year", years: "year",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const MS: Record<"second" | "minute" | "hour" | "day" | "week", number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+function subtract(reference: Date, amount: number, unit: Unit): Date {
+  const date = new Date(reference.getTime());
+  if (unit === "month") {
+    date.setUTCMonth(date.getUTCMonth() - amount);
+  } else if (unit === "year") {
+    date.setUTCFullYear(date.getUTCFullYear() - amount);
+  } else {
+    date.setTime(date.getTime() - amount * MS[unit]);
+  }
+  return date;
+}
+
+function ranged(start: Date, end: Date): NormalizedTimestamp {
+  return {
+    iso: new Date((start.getTime() + end.getTime()) / 2).toISOString(),
+    rangeStart: start.toISOString(),
+    rangeEnd: end.toISOString(),
+  };
+}
+
+// Calendar helpers work in the user's local time, expressed as a UTC date
+// shifted by the timezone offset
+function localDayRange(year: number, month: number, day: number, offset: number): NormalizedTimestamp {
+  const start = new Date(Date.UTC(year, month, day) + offset * MS.minute);
+  const end = new Date(start.getTime() + MS.day - 1);
+  return ranged(start, end);
+}
+
+function localDateTime(year: number, month: number, day: number, hours: number, minutes: number, offset: number): NormalizedTimestamp {
+  return { iso: new Date(Date.UTC(year, month, day, hours, minutes) + offset * MS.minute).toISOString() };
+}
+
+function localParts(date: Date, offset: number) {
+  const local = new Date(date.getTime() - offset * MS.minute);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+}
+
+// "3:45 PM", "15:45", "at 3pm"
+function parseTime(text: string): { hours: number; minutes: number } | null {
+  const match = text.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (!match || (!match[2] && !match[3])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+function atDay(year: number, month: number, day: number, timeText: string, offset: number): NormalizedTimestamp {
+  const time = parseTime(timeText);
+  return time
+    ? localDateTime(year, month, day, time.hours, time.minutes, offset)
+    : localDayRange(year, month, day, offset);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.substring(0, 3).toLowerCase());
+}
+
+function parseRelative(text: string, reference: Date): NormalizedTimestamp | null {
+  const match = text.match(/^(\d+|an?|one)\s*([a-z]+)\.?$/);
+  if (!match) return null;
+  const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+  const unit = UNIT_ALIASES[match[2]];
+  if (!unit) return null;
+
+  if (unit === "second" || unit === "minute" || unit === "hour") {
+    return { iso: subtract(reference, amount, unit).toISOString() };
+  }
+  // Platforms round down: "3w" is shown from three weeks up to four
+  return ranged(subtract(reference, amount + 1, unit), subtract(reference, amount, unit));
+}
+
+function parseAbsolute(text: string, { reference, timezoneOffset = 0 }: TimestampContext): NormalizedTimestamp | null {
+  const offset = timezoneOffset;
+  const today = localParts(reference, offset);
+
+  // A date without a year is the most recent one not after the capture
+  const inferYear = (month: number, day: number) =>
+    Date.UTC(today.year, month, day) > Date.UTC(today.year, today.month, today.day) ? today.year - 1 : today.year;
+
+  // 2024-12-10, 2024-12-10T15:45:00Z
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})(.*)$/);
+  if (match) {
+    if (/t\d{2}:\d{2}/.test(text)) {
+      const parsed = Date.parse(text.toUpperCase());
+      return Number.isNaN(parsed) ? null : { iso: new Date(parsed).toISOString() };
+    }
+    return atDay(Number(match[1]), Number(match[2]) - 1, Number(match[3]), match[4], offset);
+  }
+
+  // Dec 10, 2024 / December 10 at 3:45 PM
+  match = text.match(/^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?(.*)$/);
+  if (match && monthIndex(match[1]) !== -1) {
+    const month = monthIndex(match[1]);
+    const day = Number(match[2]);
+    return atDay(match[3] ? Number(match[3]) : inferYear(month, day), month, day, match[4], offset);
+  }
+
+  // 10 Dec 2024 / 10 December
+  match = text.match(/^(\d{1,2})\s+([a-z]{3,9})\.?(?:,?\s+(\d{4}))?(.*)$/);
+  if (match && monthIndex(match[2]) !== -1) {
+    const month = monthIndex(match[2]);
+    const day = Number(match[1]);
+    return atDay(match[3] ? Number(match[3]) : inferYear(month, day), month, day, match[4], offset);
+  }
+
+  // 12/10/2024 or 12/10/24: month first unless that can't be right
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(.*)$/);
+  if (match) {
+    let month = Number(match[1]);
+    let day = Number(match[2]);
+    if (month > 12) [month, day] = [day, month];
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return month <= 12 && day <= 31 ? atDay(year, month - 1, day, match[4], offset) : null;
+  }
+
+  return null;
+}
+
+export function normalizeTimestamp(raw: string | undefined, context: TimestampContext): NormalizedTimestamp | null {
+  if (!raw) return null;
+
+  const text = raw
+    .toLowerCase()
+    .replace(/[·•]/g, " ")
+    .replace(/\b(edited|ago)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/,$/, "");
+  if (!text) return null;
+
+  const { reference, timezoneOffset = 0 } = context;
+
+  if (/^(just now|now|moments?)$/.test(text)) {
+    return { iso: reference.toISOString() };
+  }
+
+  const dayWord = text.match(/^(today|yesterday)\b(.*)$/);
+  if (dayWord) {
+    const day = localParts(subtract(reference, dayWord[1] === "yesterday" ? 1 : 0, "day"), timezoneOffset);
+    return atDay(day.year, day.month, day.day, dayWord[2], timezoneOffset);
+  }
+
+  return parseRelative(text, reference) ?? parseAbsolute(text, context);
+}
+
+// ISO-8601 interval notation ("start/end") for CSV export
+export function formatTimestampRange(timestamp: NormalizedTimestamp | undefined): string | undefined {
+  return timestamp?.rangeStart && timestamp.rangeEnd
+    ? `${timestamp.rangeStart}/${timestamp.rangeEnd}`
+    : undefined;
+}
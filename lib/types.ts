@@ -0,0 +1,134 @@
+import type { ParsePath } from "@/lib/confidence";
+import type { ParsedCount } from "@/lib/counts";
+import type { CommentLabels } from "@/lib/labels";
+import type { PlatformId } from "@/lib/platforms";
+import type { NormalizedTimestamp } from "@/lib/timestamps";
+
+// Region of the image a comment occupies, as fractions of the image width
+// and height measured from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A comment as the model reports it, before ids and threading are assigned
+export interface RawComment {
+  username?: string;
+  text: string;
+  timestamp?: string;
+  likes?: string;
+  // Nesting level as drawn on screen: 0 for top-level, 1 for a reply, ...
+  depth?: number;
+  // From a "View N replies" link under the comment, if shown
+  replyCount?: number;
+  // Labels such as "pinned", "creator-heart", "verified", "author"
+  badges?: string[];
+  // Per-reaction breakdown when the platform shows one ("like", "love", ...)
+  reactions?: Array<{ type: string; count: string }>;
+  box?: BoundingBox;
+  // ISO 639-1 code of the language the comment is written in
+  language?: string;
+  // The model's own estimate that the comment was read correctly, 0 to 1
+  confidence?: number;
+}
+
+export interface ExtractedComment extends RawComment {
+  id: string;
+  // Id of the comment this one replies to, within the same image
+  parentId?: string;
+  depth: number;
+  // `timestamp` resolved against the capture time; absent if unparseable
+  timestampNormalized?: NormalizedTimestamp;
+  // `likes` and `reactions` as integers; absent if unparseable
+  likesCount?: ParsedCount;
+  reactionCounts?: Record<string, ParsedCount>;
+  // Combined score from the model's estimate, the parse path and heuristics,
+  // and the reasons it was lowered
+  confidenceScore?: number;
+  confidenceReasons?: string[];
+  // Sentiment, intent and topics from the optional enrichment pass
+  labels?: CommentLabels;
+  // `text` translated into the run's target language; `text` itself stays verbatim
+  translation?: { language: string; text: string };
+  // What a person changed after extraction: field names such as "text" or
+  // "username", or "split", "merged" and "added"; unset for untouched comments
+  edits?: string[];
+}
+
+// How a PDF page was read: from its text layer, or rendered to an image for
+// the vision model
+export type PdfPageSource = "text-layer" | "rendered";
+
+// What server-side preprocessing did to an uploaded image before sending it
+export interface ImagePreprocessing {
+  originalBytes: number;
+  // Total bytes sent to the model, summed over tiles for tall screenshots
+  sentBytes: number;
+  // Source format when the image was converted, e.g. "heic"
+  convertedFrom?: string;
+  // Original dimensions when the image was downscaled
+  resizedFrom?: { width: number; height: number };
+}
+
+// Where the capture time used for timestamp normalization came from
+export type CaptureTimeSource = "user" | "exif" | "file" | "processed";
+
+// "failed" results never carry comments: the reason is in `error` and the
+// model output (if any) in `rawResponse`. A "succeeded" result only has an
+// `error` when some of its tiles failed.
+export type ProcessStatus = "succeeded" | "failed";
+
+export interface ProcessedComment {
+  imageName: string;
+  // Position of the source in the upload, used to restore order when images
+  // finish out of sequence
+  fileIndex: number;
+  pageNumber?: number;
+  pageSource?: PdfPageSource;
+  status: ProcessStatus;
+  // Detected or user-selected platform; absent when the file failed before extraction
+  platform?: PlatformId;
+  // Reference time relative timestamps were resolved against
+  capturedAt?: string;
+  capturedAtSource?: CaptureTimeSource;
+  comments: ExtractedComment[];
+  parsePath?: ParsePath;
+  rawResponse: string;
+  error?: string;
+  // Set when extraction succeeded but labelling or translating some comments failed
+  enrichmentError?: string;
+  // Provider calls that were retried after rate limits or server errors
+  retries?: number;
+  // True when the result was served from the result cache without a model
+  // call, false when it was freshly extracted; unset when the cache is off
+  cached?: boolean;
+  // Set when a tall screenshot was split into tiles. A succeeded result with
+  // failed tiles carries the first tile error in `error`.
+  tiles?: { count: number; failed: number };
+  // Set for uploaded images, not PDF pages
+  preprocessing?: ImagePreprocessing;
+  // Loaded from an earlier export rather than extracted in this session;
+  // `fileIndex` then counts imported images, across all imported files
+  imported?: boolean;
+}
+
+// A result as shown and exported; comments carry seenIn once overlapping
+// captures have been merged
+export type DisplayResult = Omit<ProcessedComment, "comments"> & {
+  comments: Array<ExtractedComment & { seenIn?: string[] }>;
+};
+
+// Events emitted by /api/process-images in streaming mode, one JSON object per
+// line. An "item" is a single image: a whole image file or one PDF page.
+export type ProgressEvent =
+  | { type: "start"; totalFiles: number }
+  | { type: "file-started"; fileIndex: number; fileName: string }
+  | { type: "file-pages"; fileIndex: number; pageCount: number }
+  | { type: "item-started"; fileIndex: number; imageName: string; pageNumber?: number }
+  | { type: "item-succeeded"; fileIndex: number; pageNumber?: number; result: ProcessedComment }
+  | { type: "item-failed"; fileIndex: number; pageNumber?: number; result: ProcessedComment }
+  | { type: "file-finished"; fileIndex: number }
+  | { type: "done"; totalResults: number }
+  | { type: "error"; error: string };
@@ -1,7 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Loaded from node_modules at runtime instead of bundled, so pdfjs can
+    // resolve its worker file and canvas its native binding
+    serverComponentsExternalPackages: ["pdfjs-dist", "canvas"],
+  },
 };
 
 module.exports = nextConfig;
-